@@ -1,21 +1,18 @@
 import Ably from 'ably';
 import { streamText, convertToModelMessages } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
-import { subscribeToChannel } from '@ably/ai-sdk-transport';
+import { AgentManager } from '@ably/ai-sdk-transport';
 
 const ablyServer = new Ably.Realtime({ key: process.env.ABLY_API_KEY });
 
 // In-memory state — works in persistent server processes (next dev / next start)
 // but NOT in serverless environments (Vercel/Lambda) where each cold start
-// creates a new instance and this Map will be empty.
-const subscriptions = new Set<string>();
-
-async function startSubscription(channelName: string) {
-  const channel = ablyServer.channels.get(channelName);
-  console.log(`Subscribing to channel: ${channelName}`);
-
-  await subscribeToChannel({
-    channel,
+// creates a new instance and the manager starts empty.
+const agents = new AgentManager({
+  ably: ablyServer,
+  idleTimeout: 10 * 60 * 1000,
+  maxChannels: 100,
+  subscribeOptions: {
     presence: {},
     logger: console,
     handler: async ({ messages, abortSignal }) => {
@@ -33,8 +30,8 @@ async function startSubscription(channelName: string) {
 
       return result.toUIMessageStream();
     },
-  });
-}
+  },
+});
 
 export async function POST(request: Request) {
   const { channelName } = (await request.json()) as {
@@ -45,13 +42,18 @@ export async function POST(request: Request) {
     return new Response('Missing channelName', { status: 400 });
   }
 
-  if (subscriptions.has(channelName)) {
+  if (agents.status(channelName)?.state === 'active') {
     return new Response('Already subscribed', { status: 200 });
   }
 
-  subscriptions.add(channelName);
-
-  await startSubscription(channelName);
+  console.log(`Subscribing to channel: ${channelName}`);
+  try {
+    await agents.join(channelName);
+  } catch (err) {
+    return new Response(err instanceof Error ? err.message : 'Failed to subscribe', {
+      status: 503,
+    });
+  }
 
   return new Response('Subscribed', { status: 200 });
 }
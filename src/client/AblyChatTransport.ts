@@ -1,15 +1,49 @@
 import type * as Ably from 'ably';
 import type { ChatTransport, UIMessage, UIMessageChunk, ChatRequestOptions } from 'ai';
 import type { SerialTracker, HandlerContext } from './types';
-import { createEnsureStarted, reconstructMessages, TERMINAL_NAMES } from './utils';
+import {
+  createEnsureStarted,
+  createTrackerFromName,
+  reconstructMessages,
+  findResponseSerial,
+  parseData,
+  parseJsonData,
+  tombstonePart,
+  FEEDBACK_ANNOTATION_TYPE,
+  TERMINAL_NAMES,
+} from './utils';
+import {
+  AGENT_HEADER,
+  CAPABILITY_HEADER,
+  FRAGMENT_NAME,
+  collectFragment,
+  collectToolApprovals,
+  collectToolResults,
+  decompressFragments,
+  hasAllFragments,
+  readClaim,
+} from '../shared';
+import type { AgentClaim, AgentTarget, FeedbackRating, Retraction, Rewrite } from '../shared';
 import { handleCreate } from './handlers/handleCreate';
 import { handleAppend } from './handlers/handleAppend';
 import { handleUpdate } from './handlers/handleUpdate';
+import { handleDelete } from './handlers/handleDelete';
+import { gzipCodec } from '../compression';
+import type { CompressionCodec } from '../compression';
+import { decodeMessage, encryptMessage } from '../encryption';
+import type { Encryption } from '../encryption';
+import { PROTOCOL_VERSION, PROTOCOL_VERSION_HEADER } from '../protocol';
 import { noopLogger } from '../logger';
 import type { Logger } from '../logger';
 
 /** Names of messages published by the client — used for echo filtering. */
-const CLIENT_MESSAGE_NAMES = new Set(['chat-message', 'regenerate', 'user-abort']);
+const CLIENT_MESSAGE_NAMES = new Set([
+  'chat-message',
+  'regenerate',
+  'user-abort',
+  'tool-approval-response',
+  'tool-result',
+]);
 
 /**
  * Options for constructing an {@link AblyChatTransport}.
@@ -21,8 +55,20 @@ const CLIENT_MESSAGE_NAMES = new Set(['chat-message', 'regenerate', 'user-abort'
 export type AblyChatTransportOptions = {
   historyLimit?: number;
   logger?: Logger;
+  /** Codecs available to decompress payloads compressed by the server. Defaults to `[gzipCodec]`. */
+  compressionCodecs?: CompressionCodec[];
+  /**
+   * Encrypt published messages and decrypt received ones. Must match the
+   * `encryption` configured on the server.
+   */
+  encryption?: Encryption;
   /** Called when the channel's state changes (e.g. attached → failed). */
   onChannelStateChange?: (stateChange: Ably.ChannelStateChange) => void;
+  /**
+   * Address prompts to a named agent, or to any agent with a capability, when
+   * several agents serve the channel. A function is called for every prompt.
+   */
+  target?: AgentTarget | (() => AgentTarget | undefined);
 } & (
   | {
       /** Pre-configured channel — lifecycle is managed by the caller. */
@@ -79,6 +125,16 @@ class MessageBuffer {
   }
 }
 
+/** Request headers as a plain object, which survives JSON. */
+function headersRecord(headers: Record<string, string> | Headers): Record<string, string> {
+  if (!(headers instanceof Headers)) return headers;
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
 export class AblyChatTransport implements ChatTransport<UIMessage> {
   private readonly _channel: Ably.RealtimeChannel;
   private readonly _ownsChannel: boolean;
@@ -86,15 +142,35 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
   private readonly historyLimit: number;
   private readonly listener: (msg: Ably.InboundMessage) => void;
   private readonly logger: Logger;
+  private readonly compressionCodecs: CompressionCodec[];
+  private readonly encryption?: Encryption;
   private readonly _onChannelStateChange?: (stateChange: Ably.ChannelStateChange) => void;
   private readonly _ready: Promise<unknown>;
   private _hasActiveStream = false;
   private activeDrainCtx: HandlerContext | null = null;
+  /** Serials feedback is annotated on, by assistant message id. */
+  private readonly responseSerials = new Map<string, string>();
+  /** Tool calls the agent published an output or error for, so they are not sent back to it. */
+  private readonly agentToolResults = new Set<string>();
+  private readonly target?: AgentTarget | (() => AgentTarget | undefined);
+  private _respondingAgent: AgentClaim | undefined;
+  private readonly claimListeners = new Set<(claim: AgentClaim) => void>();
+  /** Assistant message ids of responses, by the prompt they answer. */
+  private readonly responseMessageIds = new Map<string, string>();
+  /** Prompts whose retraction has been reported — each of its deletes arrives separately. */
+  private readonly retractedPrompts = new Set<string>();
+  private readonly retractionListeners = new Set<(retraction: Retraction) => void>();
+  /** Text and reasoning parts of each response, in order, by the prompt it answers. */
+  private readonly responseParts = new Map<string, HandlerContext['streamedParts']>();
+  private readonly rewriteListeners = new Set<(rewrite: Rewrite) => void>();
 
   constructor(options: AblyChatTransportOptions) {
     this.historyLimit = options.historyLimit ?? 100;
     this.logger = options.logger ?? noopLogger;
+    this.compressionCodecs = options.compressionCodecs ?? [gzipCodec];
+    this.encryption = options.encryption;
     this._onChannelStateChange = options.onChannelStateChange;
+    this.target = options.target;
 
     if (options.channel) {
       this._channel = options.channel;
@@ -110,6 +186,29 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
 
     this.listener = (msg: Ably.InboundMessage) => {
       if (msg.name && CLIENT_MESSAGE_NAMES.has(msg.name)) return;
+      const claim = readClaim(msg);
+      if (claim) {
+        this.setRespondingAgent(claim);
+        return;
+      }
+      // Responses streamed to other clients are never drained here, so
+      // remember their message ids for retractions
+      if (msg.name === 'start') {
+        this.decode(msg).then(
+          (decoded) => this.rememberResponse(decoded),
+          () => {},
+        );
+      }
+      this.rememberPart(msg);
+      // A response no drain is streaming can only be retracted or rewritten after the fact
+      if (msg.action === 'message.delete' && !this.isDraining) {
+        this.notifyRetraction(msg);
+        return;
+      }
+      if (isRewrite(msg) && !this.isDraining) {
+        this.notifyRewrite(msg);
+        return;
+      }
       this.logger.debug(`[${msg.action}] ${msg.name}: ${msg.data}`, msg.extras);
       this.buffer.push(msg);
     };
@@ -156,8 +255,43 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
     const chronological = [...items].sort((a, b) => ((a.serial ?? '') > (b.serial ?? '') ? 1 : -1));
     this.logger.debug('Loaded history:', chronological.length, 'messages');
 
-    // Reconstruct UIMessage[]
-    const messages = reconstructMessages(chronological);
+    // Reconstruct UIMessage[]. A message that fails to decode is dropped
+    // rather than failing the whole history load.
+    const decoded = await Promise.all(
+      chronological.map((msg) =>
+        this.decode(msg).catch((err) => {
+          this.logger.warn('Failed to decode history message:', msg.name, err);
+          return null;
+        }),
+      ),
+    );
+    // Payloads compressed before they were split can only be decompressed
+    // once reassembled, and their fragments may come after them
+    const fragments = new Map<string, string[]>();
+    for (const msg of decoded) {
+      if (msg?.name === FRAGMENT_NAME) collectFragment(msg, fragments);
+    }
+    const reassembled = await Promise.all(
+      decoded.map((msg) =>
+        msg === null
+          ? null
+          : decompressFragments(msg, fragments, this.compressionCodecs).catch((err) => {
+              this.logger.warn('Failed to decode history message:', msg.name, err);
+              return null;
+            }),
+      ),
+    );
+    const valid = reassembled.filter((msg) => msg !== null);
+    let claim: AgentClaim | undefined;
+    for (const msg of valid) {
+      this.rememberResponse(msg);
+      this.rememberPart(msg);
+      this.rememberAgentToolResult(msg);
+      const next = readClaim(msg);
+      if (next && next.promptId !== claim?.promptId) claim = next;
+    }
+    if (claim) this.setRespondingAgent(claim);
+    const messages = reconstructMessages(valid);
 
     return { messages, hasActiveStream };
   }
@@ -177,32 +311,79 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
 
     await this._ready;
 
-    const { trigger, messageId, messages, abortSignal } = options;
+    const { trigger, chatId, messageId, messages, abortSignal, body, headers, metadata } = options;
     const promptId = crypto.randomUUID();
 
-    const extras = { headers: { role: 'user', promptId } };
+    const target = typeof this.target === 'function' ? this.target() : this.target;
+    const extras = {
+      headers: {
+        role: 'user',
+        promptId,
+        [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION),
+        ...(target?.agent != null ? { [AGENT_HEADER]: target.agent } : {}),
+        ...(target?.capability != null ? { [CAPABILITY_HEADER]: target.capability } : {}),
+      },
+    };
+
+    // Request options travel with every prompt, for the server's handler
+    const request = {
+      chatId,
+      ...(body != null ? { body } : {}),
+      ...(headers != null ? { headers: headersRecord(headers) } : {}),
+      ...(metadata !== undefined ? { metadata } : {}),
+    };
+
+    // Resubmitted after tool approvals or client-side tool calls: send the
+    // decisions and results, not the assistant message
+    const lastMessage = messages[messages.length - 1];
+    const resubmitted = trigger === 'submit-message' && lastMessage?.role === 'assistant';
+    const approvals = resubmitted ? collectToolApprovals(lastMessage) : [];
+    const results = resubmitted
+      ? collectToolResults(lastMessage).filter((r) => !this.agentToolResults.has(r.toolCallId))
+      : [];
 
     // Publish the trigger message
-    if (trigger === 'submit-message') {
-      await this._channel.publish({
-        name: 'chat-message',
-        data: JSON.stringify({
-          message: messages[messages.length - 1],
+    if (approvals.length > 0 || results.length > 0) {
+      await this._channel.publish(
+        await this.seal({
+          name: results.length > 0 ? 'tool-result' : 'tool-approval-response',
+          data: JSON.stringify({
+            ...request,
+            messageId: lastMessage.id,
+            ...(approvals.length > 0 ? { approvals } : {}),
+            ...(results.length > 0 ? { results } : {}),
+          }),
+          extras,
         }),
-        extras,
-      });
+      );
+    } else if (trigger === 'submit-message') {
+      await this._channel.publish(
+        await this.seal({
+          name: 'chat-message',
+          data: JSON.stringify({
+            ...request,
+            ...(messageId != null ? { messageId } : {}),
+            message: messages[messages.length - 1],
+          }),
+          extras,
+        }),
+      );
     } else if (trigger === 'regenerate-message') {
-      await this._channel.publish({
-        name: 'regenerate',
-        data: JSON.stringify({
-          ...(messageId != null ? { messageId } : {}),
+      await this._channel.publish(
+        await this.seal({
+          name: 'regenerate',
+          data: JSON.stringify({
+            ...request,
+            ...(messageId != null ? { messageId } : {}),
+          }),
+          extras,
         }),
-        extras,
-      });
+      );
     }
 
-    // Return a stream that drains the buffer until 'finish'
-    return this.createDrainStream(abortSignal, promptId);
+    // Return a stream that drains the buffer until 'finish'. A resubmitted
+    // assistant message is continued by the response.
+    return this.createDrainStream(abortSignal, promptId, resubmitted ? lastMessage : undefined);
   }
 
   async reconnectToStream(
@@ -215,6 +396,38 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
     return this.createDrainStream();
   }
 
+  /**
+   * Rate an assistant message, with an optional comment, by annotating it on
+   * the channel. A client's later rating of the same message replaces its
+   * earlier one. Aggregated ratings are returned as `metadata.feedback` by
+   * `loadChatHistory`.
+   */
+  async sendFeedback(
+    messageId: string,
+    feedback: { rating: FeedbackRating; comment?: string },
+  ): Promise<void> {
+    await this._ready;
+    const serial =
+      this.responseSerials.get(messageId) ?? (await this.lookupResponseSerial(messageId));
+    if (!serial) throw new Error(`No response with message id "${messageId}" on the channel`);
+
+    const { data, extras } = await this.seal({
+      data: JSON.stringify({
+        messageId,
+        ...(feedback.comment != null ? { comment: feedback.comment } : {}),
+      }),
+      extras: {
+        headers: { role: 'user', [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION) },
+      },
+    });
+    await this._channel.annotations.publish(serial, {
+      type: FEEDBACK_ANNOTATION_TYPE,
+      name: feedback.rating,
+      data,
+      extras,
+    });
+  }
+
   /**
    * Observe whether an agent is present on the channel.
    *
@@ -272,6 +485,58 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
     };
   }
 
+  /**
+   * The agent answering the latest prompt on the channel, from its `claim`,
+   * or `undefined` until an agent has claimed one. Agents only claim prompts
+   * when they are configured with a name.
+   */
+  get respondingAgent(): AgentClaim | undefined {
+    return this._respondingAgent;
+  }
+
+  /**
+   * Observe which agent claims each prompt on the channel.
+   *
+   * @returns An unsubscribe function.
+   */
+  onRespondingAgentChange(callback: (claim: AgentClaim) => void): () => void {
+    this.claimListeners.add(callback);
+    return () => {
+      this.claimListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Observe retractions of responses that are no longer streaming, such as
+   * one withdrawn by moderation after it finished. Apply each to `messages`
+   * with `applyRetraction`. A response retracted while it streams gets its
+   * `data-tombstone` part in the stream instead.
+   *
+   * @returns An unsubscribe function.
+   */
+  onRetraction(callback: (retraction: Retraction) => void): () => void {
+    this.retractionListeners.add(callback);
+    return () => {
+      this.retractionListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Observe rewrites of text and reasoning parts that are no longer
+   * streaming, such as a secret masked with `rewriteText` after the response
+   * finished. Apply each to `messages` with `applyRewrite`. A part rewritten
+   * while its response streams gets a `data-rewrite` part in the stream
+   * instead.
+   *
+   * @returns An unsubscribe function.
+   */
+  onRewrite(callback: (rewrite: Rewrite) => void): () => void {
+    this.rewriteListeners.add(callback);
+    return () => {
+      this.rewriteListeners.delete(callback);
+    };
+  }
+
   /** Expose the raw Ably presence object for advanced use cases (e.g. custom presence data or presence history). */
   presence() {
     return this._channel.presence;
@@ -316,6 +581,7 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
   private createDrainStream(
     abortSignal?: AbortSignal,
     promptId?: string,
+    continues?: UIMessage,
   ): ReadableStream<UIMessageChunk> {
     const channel = this._channel;
 
@@ -335,6 +601,12 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
           ensureStarted,
           emitState,
           closed: false,
+          fragments: new Map(),
+          streamedParts: [],
+          priorParts: {
+            text: continues?.parts.filter((p) => p.type === 'text').length ?? 0,
+            reasoning: continues?.parts.filter((p) => p.type === 'reasoning').length ?? 0,
+          },
         };
 
         // Track this drain as the active one
@@ -344,12 +616,20 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
           if (ctx.closed) return;
           channel.publish({
             name: 'user-abort',
-            extras: { headers: { role: 'user', ...(promptId ? { promptId } : {}) } },
+            extras: {
+              headers: {
+                role: 'user',
+                [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION),
+                ...(promptId ? { promptId } : {}),
+              },
+            },
           });
         });
 
         // Async drain loop
         let drainSeq = 0;
+        // Prompt of the response a reconnected drain streams, once known
+        let streamingPromptId: string | undefined;
         const drain = async () => {
           this.logger.debug('[drain] started');
           while (!ctx.closed) {
@@ -370,6 +650,26 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
 
             // Filter by promptId: skip messages from a different prompt
             const msgPromptId = msg.extras?.headers?.promptId;
+            if (msg.action === 'message.delete') {
+              // Deletes of an earlier response are a retraction of it, not
+              // part of this one
+              if (msgPromptId == null || msgPromptId !== (promptId ?? streamingPromptId)) {
+                this.notifyRetraction(msg);
+                continue;
+              }
+            } else if (isRewrite(msg)) {
+              // Only parts this stream streamed can be rewritten in it
+              const part = createTrackerFromName(msg.name ?? '');
+              const streamed = ctx.streamedParts.some(
+                (p) => p.type === part?.type && p.id === part.id,
+              );
+              if (!streamed || msgPromptId !== (promptId ?? streamingPromptId)) {
+                this.notifyRewrite(msg);
+                continue;
+              }
+            } else if (msgPromptId != null) {
+              streamingPromptId ??= msgPromptId;
+            }
             if (promptId && msgPromptId && msgPromptId !== promptId) {
               this.logger.debug(`[drain] #${drainSeq++} SKIPPED (promptId mismatch) ${msg.action} ${msg.name}`);
               continue;
@@ -378,7 +678,20 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
             this.logger.debug(`[drain] #${drainSeq++} routing ${msg.action} ${msg.name}: ${typeof msg.data === 'string' ? msg.data.slice(0, 80) : msg.data}`);
 
             try {
-              this.routeMessage(msg, ctx);
+              const decoded = await this.decode(msg);
+              const routed = await decompressFragments(
+                decoded,
+                ctx.fragments,
+                this.compressionCodecs,
+              );
+              if (!hasAllFragments(routed, ctx.fragments)) {
+                // Fragments published before attaching are only in history
+                this.logger.warn(
+                  `[drain] skipping ${routed.name}: fragments of its payload were published before attaching; loadChatHistory() reassembles it`,
+                );
+                continue;
+              }
+              this.routeMessage(routed, ctx);
               if (ctx.closed) {
                 this.logger.debug(`[drain] stream closed after routing ${msg.name}, serialState keys:`, [...ctx.serialState.keys()]);
               }
@@ -404,7 +717,139 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
     });
   }
 
+  /** Encrypt an outgoing message when encryption is configured. */
+  private async seal(message: Ably.Message): Promise<Ably.Message> {
+    return this.encryption ? encryptMessage(message, this.encryption) : message;
+  }
+
+  private decode(message: Ably.InboundMessage): Promise<Ably.InboundMessage> {
+    return decodeMessage(message, {
+      encryption: this.encryption,
+      compressionCodecs: this.compressionCodecs,
+    });
+  }
+
+  /**
+   * Record, when `message` starts a response, the serial to annotate with
+   * feedback and the message id a retraction of its prompt refers to.
+   */
+  private rememberResponse(message: Ably.InboundMessage): void {
+    if (message.name !== 'start' || !message.serial) return;
+    const { messageId } = parseJsonData(message.data);
+    if (typeof messageId !== 'string') return;
+    this.responseSerials.set(messageId, message.serial);
+    const promptId = message.extras?.headers?.promptId;
+    if (promptId != null) this.responseMessageIds.set(promptId, messageId);
+  }
+
+  /** Whether a drain is streaming a response. */
+  private get isDraining(): boolean {
+    return this.activeDrainCtx != null && !this.activeDrainCtx.closed;
+  }
+
+  /** Report the retraction `message` belongs to, once per response. */
+  private notifyRetraction(message: Ably.InboundMessage): void {
+    const promptId = message.extras?.headers?.promptId;
+    if (promptId == null || this.retractedPrompts.has(promptId)) return;
+    this.retractedPrompts.add(promptId);
+    const messageId = this.responseMessageIds.get(promptId);
+    const retraction: Retraction = {
+      promptId,
+      ...(messageId != null ? { messageId } : {}),
+      ...tombstonePart(message).data,
+    };
+    for (const listener of this.retractionListeners) listener(retraction);
+  }
+
+  /** Record the text or reasoning part `message` belongs to, so a rewrite of it can be located. */
+  private rememberPart(message: Ably.InboundMessage): void {
+    const promptId = message.extras?.headers?.promptId;
+    const part = createTrackerFromName(message.name ?? '');
+    if (promptId == null || !part || part.type === 'tool-input') return;
+    const parts = this.responseParts.get(promptId) ?? [];
+    if (!parts.some((p) => p.type === part.type && p.id === part.id)) {
+      parts.push({ type: part.type, id: part.id });
+    }
+    this.responseParts.set(promptId, parts);
+  }
+
+  /** Report a rewrite of a part that is no longer streaming. */
+  private notifyRewrite(message: Ably.InboundMessage): void {
+    this.decode(message).then(
+      (decoded) => {
+        const rewrite = this.locateRewrite(decoded);
+        if (!rewrite) {
+          this.logger.warn(`No known part for rewrite of ${decoded.name}`);
+          return;
+        }
+        for (const listener of this.rewriteListeners) listener(rewrite);
+      },
+      (err) => {
+        this.logger.warn('Failed to decode rewrite:', message.name, err);
+      },
+    );
+  }
+
+  /**
+   * Position the rewritten part among its message's parts of the same type,
+   * counting the parts of earlier responses that continued the same message.
+   */
+  private locateRewrite(message: Ably.InboundMessage): Rewrite | undefined {
+    const promptId = message.extras?.headers?.promptId;
+    const part = createTrackerFromName(message.name ?? '');
+    if (promptId == null || !part || part.type === 'tool-input') return undefined;
+    const type = part.type;
+    const messageId = this.responseMessageIds.get(promptId);
+    const prompts =
+      messageId != null
+        ? [...this.responseMessageIds].filter(([, id]) => id === messageId).map(([p]) => p)
+        : [promptId];
+
+    let index = 0;
+    for (const prompt of prompts) {
+      const parts = (this.responseParts.get(prompt) ?? []).filter((p) => p.type === type);
+      const at = parts.findIndex((p) => p.id === part.id);
+      if (prompt === promptId && at !== -1) {
+        return {
+          promptId,
+          ...(messageId != null ? { messageId } : {}),
+          type,
+          index: index + at,
+          text: parseData(message.data),
+        };
+      }
+      index += parts.length;
+    }
+    return undefined;
+  }
+
+  private setRespondingAgent(claim: AgentClaim): void {
+    // Only the first claim for a prompt counts
+    if (this._respondingAgent?.promptId === claim.promptId) return;
+    this._respondingAgent = claim;
+    for (const listener of this.claimListeners) listener(claim);
+  }
+
+  /** Record a tool call whose output or error `message` carries from the agent. */
+  private rememberAgentToolResult(message: Ably.InboundMessage): void {
+    const name = message.name ?? '';
+    if (name.startsWith('tool-output:')) this.agentToolResults.add(name.slice(12));
+    if (name.startsWith('tool-error:')) this.agentToolResults.add(name.slice(11));
+  }
+
+  /** Find the serial to annotate for a response not seen live or in loaded history. */
+  private async lookupResponseSerial(messageId: string): Promise<string | undefined> {
+    const { items } = await this._channel.history({ limit: this.historyLimit });
+    const decoded = await Promise.all(items.map((msg) => this.decode(msg).catch(() => null)));
+    return findResponseSerial(
+      decoded.filter((msg) => msg !== null),
+      messageId,
+    );
+  }
+
   private routeMessage(message: Ably.InboundMessage, ctx: HandlerContext): void {
+    this.rememberResponse(message);
+    this.rememberAgentToolResult(message);
     const action = message.action;
 
     // All streaming handlers rely on message.serial as a Map key for tracking
@@ -428,5 +873,16 @@ export class AblyChatTransport implements ChatTransport<UIMessage> {
       handleUpdate(message, ctx);
       return;
     }
+
+    if (action === 'message.delete') {
+      handleDelete(message, ctx);
+      return;
+    }
   }
 }
+
+/** Whether `message` replaces the text of a finished text or reasoning part. */
+function isRewrite(message: Ably.InboundMessage): boolean {
+  const event = message.version?.metadata?.event;
+  return event === 'text-rewrite' || event === 'reasoning-rewrite';
+}
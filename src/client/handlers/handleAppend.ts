@@ -1,6 +1,6 @@
 import type { InboundMessage } from 'ably';
 import type { HandlerContext } from '../types.js';
-import { parseData, createTrackerFromName } from '../utils.js';
+import { parseData, createTrackerFromName, decodeWireMessage } from '../utils.js';
 
 /** Extract optional JSON-encoded fields from extras.headers. */
 function extractOptionalHeaders(
@@ -21,7 +21,8 @@ function extractOptionalHeaders(
   return result;
 }
 
-export function handleAppend(message: InboundMessage, ctx: HandlerContext): void {
+export function handleAppend(received: InboundMessage, ctx: HandlerContext): void {
+  const message = decodeWireMessage(received);
   const data = parseData(message.data);
   const event = message.version?.metadata?.event;
 
@@ -37,8 +38,10 @@ export function handleAppend(message: InboundMessage, ctx: HandlerContext): void
     ctx.ensureStarted();
     if (tracker.type === 'text') {
       ctx.controller.enqueue({ type: 'text-start', id: tracker.id });
+      ctx.streamedParts.push({ type: 'text', id: tracker.id });
     } else if (tracker.type === 'reasoning') {
       ctx.controller.enqueue({ type: 'reasoning-start', id: tracker.id });
+      ctx.streamedParts.push({ type: 'reasoning', id: tracker.id });
     } else if (tracker.type === 'tool-input') {
       ctx.controller.enqueue({
         type: 'tool-input-start',
@@ -1,7 +1,14 @@
 import type { InboundMessage } from 'ably';
 import type { UIMessageChunk } from 'ai';
-import type { HandlerContext } from '../types.js';
-import { parseData, parseJsonData } from '../utils.js';
+import type { HandlerContext, SerialTracker } from '../types.js';
+import {
+  parseData,
+  parseJsonData,
+  FRAGMENT_NAME,
+  collectFragment,
+  reassembleFragments,
+  decodeWireMessage,
+} from '../utils.js';
 
 type FinishChunk = Extract<UIMessageChunk, { type: 'finish' }>;
 
@@ -23,7 +30,37 @@ function extractOptionalHeaders(
   return result;
 }
 
-export function handleCreate(message: InboundMessage, ctx: HandlerContext): void {
+/**
+ * Whether a stream create duplicates one that is already in progress — either
+ * the same message redelivered, or a retried publish of the same part.
+ */
+function isTracked(
+  ctx: HandlerContext,
+  serial: string | undefined,
+  type: SerialTracker['type'],
+  id: string,
+): boolean {
+  if (serial != null && ctx.serialState.has(serial)) return true;
+  for (const tracker of ctx.serialState.values()) {
+    if (tracker.type === type && tracker.id === id) return true;
+  }
+  return false;
+}
+
+export function handleCreate(received: InboundMessage, ctx: HandlerContext): void {
+  const inbound = decodeWireMessage(received);
+
+  // ── Fragments of an oversized payload ──────────
+  if (inbound.name === FRAGMENT_NAME) {
+    collectFragment(inbound, ctx.fragments);
+    return;
+  }
+
+  const message = reassembleFragments(inbound, ctx.fragments);
+  if (!message) {
+    throw new Error(`Missing fragments for ${inbound.name} payload`);
+  }
+
   const name = message.name ?? '';
   const data = parseData(message.data);
   const extras = message.extras?.headers ?? {};
@@ -43,12 +80,14 @@ export function handleCreate(message: InboundMessage, ctx: HandlerContext): void
   // ── Streaming text ──────────────────────────────
   if (name.startsWith('text:')) {
     const id = name.slice(5);
+    if (isTracked(ctx, message.serial, 'text', id)) return;
     ctx.ensureStarted();
     ctx.serialState.set(message.serial!, {
       type: 'text',
       id,
       accumulated: '',
     });
+    ctx.streamedParts.push({ type: 'text', id });
     const optFields = extractOptionalHeaders(extras, ['providerMetadata']);
     ctx.controller.enqueue({ type: 'text-start', id, ...optFields } as any);
     return;
@@ -57,12 +96,14 @@ export function handleCreate(message: InboundMessage, ctx: HandlerContext): void
   // ── Streaming reasoning ─────────────────────────
   if (name.startsWith('reasoning:')) {
     const id = name.slice(10);
+    if (isTracked(ctx, message.serial, 'reasoning', id)) return;
     ctx.ensureStarted();
     ctx.serialState.set(message.serial!, {
       type: 'reasoning',
       id,
       accumulated: '',
     });
+    ctx.streamedParts.push({ type: 'reasoning', id });
     const optFields = extractOptionalHeaders(extras, ['providerMetadata']);
     ctx.controller.enqueue({ type: 'reasoning-start', id, ...optFields } as any);
     return;
@@ -73,6 +114,7 @@ export function handleCreate(message: InboundMessage, ctx: HandlerContext): void
     const parts = name.split(':');
     const toolCallId = parts[1];
     const toolName = parts.slice(2).join(':');
+    if (isTracked(ctx, message.serial, 'tool-input', toolCallId)) return;
     ctx.ensureStarted();
 
     const toolOptFields = extractOptionalHeaders(extras, [
@@ -0,0 +1,17 @@
+import type { InboundMessage } from 'ably';
+import type { HandlerContext } from '../types.js';
+import { TERMINAL_NAMES, FRAGMENT_NAME, decodeWireMessage, tombstonePart } from '../utils.js';
+
+/** Lifecycle messages that carry no content worth a tombstone. */
+const LIFECYCLE_NAMES = new Set(['start', 'step-finish', FRAGMENT_NAME, ...TERMINAL_NAMES]);
+
+export function handleDelete(received: InboundMessage, ctx: HandlerContext): void {
+  const message = decodeWireMessage(received);
+  const name = message.name ?? '';
+  if (LIFECYCLE_NAMES.has(name)) return;
+
+  // The part stays in the stream (later appends still land on it); the
+  // tombstone marks the whole response as retracted — see `applyTombstones`.
+  ctx.ensureStarted();
+  ctx.controller.enqueue(tombstonePart(message));
+}
@@ -1,8 +1,21 @@
 import type { InboundMessage } from 'ably';
 import type { HandlerContext } from '../types.js';
-import { parseData, parseJsonData, createTrackerFromName } from '../utils.js';
+import {
+  parseData,
+  parseJsonData,
+  createTrackerFromName,
+  reassembleFragments,
+  decodeWireMessage,
+} from '../utils.js';
+
+export function handleUpdate(received: InboundMessage, ctx: HandlerContext): void {
+  const inbound = decodeWireMessage(received);
+  // Updates such as tool output may carry a payload split into fragments
+  const message = reassembleFragments(inbound, ctx.fragments);
+  if (!message) {
+    throw new Error(`Missing fragments for ${inbound.name} payload`);
+  }
 
-export function handleUpdate(message: InboundMessage, ctx: HandlerContext): void {
   const name = message.name ?? '';
   const data = parseData(message.data);
 
@@ -64,8 +77,28 @@ export function handleUpdate(message: InboundMessage, ctx: HandlerContext): void
     return;
   }
 
-  // ── Append delivered as update (conflation) ─────
   const event = message.version?.metadata?.event;
+
+  // ── Rewrite of a finished text/reasoning part ───
+  if (event === 'text-rewrite' || event === 'reasoning-rewrite') {
+    const part = createTrackerFromName(name);
+    if (!part || part.type === 'tool-input') return;
+    const streamed = ctx.streamedParts
+      .filter((p) => p.type === part.type)
+      .findIndex((p) => p.id === part.id);
+    // Streamed before this response — the transport reports it through `onRewrite`
+    if (streamed === -1) return;
+    // Counted over the whole message, as `applyRewrites` does
+    const index = ctx.priorParts[part.type] + streamed;
+    ctx.controller.enqueue({
+      type: 'data-rewrite',
+      id: `rewrite:${part.type}:${index}`,
+      data: { type: part.type, index, text: data },
+    });
+    return;
+  }
+
+  // ── Append delivered as update (conflation) ─────
   let tracker = ctx.serialState.get(message.serial!);
   if (!tracker) {
     // Orphan update — the create was in history, not in the buffer.
@@ -76,8 +109,10 @@ export function handleUpdate(message: InboundMessage, ctx: HandlerContext): void
     ctx.ensureStarted();
     if (tracker.type === 'text') {
       ctx.controller.enqueue({ type: 'text-start', id: tracker.id });
+      ctx.streamedParts.push({ type: 'text', id: tracker.id });
     } else if (tracker.type === 'reasoning') {
       ctx.controller.enqueue({ type: 'reasoning-start', id: tracker.id });
+      ctx.streamedParts.push({ type: 'reasoning', id: tracker.id });
     } else if (tracker.type === 'tool-input') {
       ctx.controller.enqueue({
         type: 'tool-input-start',
@@ -18,4 +18,14 @@ export interface HandlerContext {
   ensureStarted: () => void;
   emitState: EmitState;
   closed: boolean;
+  /** Pieces of oversized payloads, keyed by `fragmentId`, awaiting their carrier message. */
+  fragments: Map<string, string[]>;
+  /** Text and reasoning parts started in this stream, in order — locates the part a rewrite replaces. */
+  streamedParts: Array<{ type: 'text' | 'reasoning'; id: string }>;
+  /**
+   * Text and reasoning parts the assistant message already had when this
+   * stream continues it (after tool approvals or results), which the streamed
+   * parts come after.
+   */
+  priorParts: { text: number; reasoning: number };
 }
@@ -2,7 +2,19 @@ import type { UIMessageChunk } from 'ai';
 import type { SerialTracker } from './types';
 
 // Re-export shared utilities so existing imports from './utils' keep working
-export { parseData, parseJsonData, TERMINAL_NAMES, reconstructMessages } from '../shared';
+export {
+  parseData,
+  parseJsonData,
+  TERMINAL_NAMES,
+  FRAGMENT_NAME,
+  collectFragment,
+  reassembleFragments,
+  reconstructMessages,
+  tombstonePart,
+  findResponseSerial,
+  FEEDBACK_ANNOTATION_TYPE,
+} from '../shared';
+export { decodeWireMessage } from '../protocol';
 
 export function createEnsureStarted(
   controller: ReadableStreamDefaultController<UIMessageChunk>,
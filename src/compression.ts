@@ -0,0 +1,75 @@
+import type { InboundMessage } from 'ably';
+
+/** Header naming the codec a message's data was compressed with. */
+export const COMPRESSION_HEADER = 'compression';
+
+/**
+ * A compression codec for message payloads. Compressed data must be a string
+ * (e.g. base64) so it can travel as Ably message data.
+ */
+export interface CompressionCodec {
+  /** Identifier written to the `compression` header, e.g. `'gzip'`. */
+  name: string;
+  compress: (data: string) => Promise<string>;
+  decompress: (data: string) => Promise<string>;
+}
+
+/** gzip via the standard `CompressionStream` API, base64-encoded. */
+export const gzipCodec: CompressionCodec = {
+  name: 'gzip',
+  async compress(data) {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+    return bytesToBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+  },
+  async decompress(data) {
+    const stream = new Blob([base64ToBytes(data)])
+      .stream()
+      .pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+  },
+};
+
+export function isCompressed(message: InboundMessage): boolean {
+  return message.extras?.headers?.[COMPRESSION_HEADER] != null;
+}
+
+/**
+ * Return a copy of `message` with its data decompressed and the compression
+ * header removed. Messages without the header are returned unchanged, as are
+ * carriers of a payload split into fragments: the payload is decompressed once
+ * reassembled (see `decompressFragments`).
+ */
+export async function decompressMessage(
+  message: InboundMessage,
+  codecs: CompressionCodec[] = [gzipCodec],
+): Promise<InboundMessage> {
+  const headers = message.extras?.headers;
+  const codecName = headers?.[COMPRESSION_HEADER] as string | undefined;
+  if (codecName == null || headers?.fragmentCount != null) return message;
+
+  const codec = codecs.find((c) => c.name === codecName);
+  if (!codec) throw new Error(`Unsupported compression codec "${codecName}"`);
+
+  const { [COMPRESSION_HEADER]: _removed, ...rest } = headers!;
+  return {
+    ...message,
+    data: await codec.decompress(typeof message.data === 'string' ? message.data : ''),
+    extras: { ...message.extras, headers: rest },
+  };
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the engine's argument limit for String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
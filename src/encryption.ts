@@ -0,0 +1,146 @@
+import type * as Ably from 'ably';
+import { base64ToBytes, bytesToBase64, decompressMessage } from './compression';
+import type { CompressionCodec } from './compression';
+
+/** Header marking a message whose data and sensitive headers are encrypted. */
+export const ENCRYPTION_HEADER = 'encrypted';
+
+/** Headers that can carry conversation content and are encrypted along with the data. */
+export const ENCRYPTED_HEADERS = ['providerMetadata', 'title'];
+
+/**
+ * Pluggable encryption for message content. Ciphertext must be a string (e.g.
+ * base64) so it can travel as Ably message data. Both sides of a conversation
+ * must be configured with compatible implementations.
+ */
+export interface Encryption {
+  encrypt: (plaintext: string) => Promise<string>;
+  decrypt: (ciphertext: string) => Promise<string>;
+}
+
+/**
+ * AES-GCM encryption via WebCrypto, with a random IV per segment.
+ *
+ * @param key - A `CryptoKey` usable for AES-GCM encrypt/decrypt, or a raw
+ *   128/256-bit key encoded as base64 (the same form as an Ably cipher key).
+ */
+export function aesGcmEncryption(key: CryptoKey | string): Encryption {
+  const cryptoKey =
+    typeof key === 'string'
+      ? crypto.subtle.importKey('raw', base64ToBytes(key), 'AES-GCM', false, ['encrypt', 'decrypt'])
+      : Promise.resolve(key);
+
+  return {
+    async encrypt(plaintext) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const encoded = new TextEncoder().encode(plaintext);
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await cryptoKey,
+        encoded,
+      );
+      const out = new Uint8Array(iv.byteLength + ciphertext.byteLength);
+      out.set(iv);
+      out.set(new Uint8Array(ciphertext), iv.byteLength);
+      return bytesToBase64(out);
+    },
+    async decrypt(ciphertext) {
+      const bytes = base64ToBytes(ciphertext);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.subarray(0, 12) },
+        await cryptoKey,
+        bytes.subarray(12),
+      );
+      return new TextDecoder().decode(plaintext);
+    },
+  };
+}
+
+export function isEncrypted(message: Ably.Message): boolean {
+  return message.extras?.headers?.[ENCRYPTION_HEADER] != null;
+}
+
+/**
+ * Return a copy of `message` with its data and sensitive headers encrypted.
+ *
+ * Data is written as length-prefixed segments (`<length>:<ciphertext>`) so that
+ * encrypted appends still decrypt once Ably concatenates them in history or in
+ * a conflated update.
+ */
+export async function encryptMessage<T extends Ably.Message>(
+  message: T,
+  encryption: Encryption,
+): Promise<T> {
+  const headers: Record<string, string> = { ...message.extras?.headers };
+  for (const key of ENCRYPTED_HEADERS) {
+    if (headers[key] != null) headers[key] = await encryption.encrypt(headers[key]);
+  }
+  headers[ENCRYPTION_HEADER] = 'true';
+
+  const { data } = message;
+  let encrypted = data;
+  if (typeof data === 'string' && data !== '') {
+    const ciphertext = await encryption.encrypt(data);
+    encrypted = `${ciphertext.length}:${ciphertext}`;
+  }
+  return { ...message, data: encrypted, extras: { ...message.extras, headers } };
+}
+
+/**
+ * Return a copy of `message` with its data and sensitive headers decrypted and
+ * the encryption header removed. Messages without the header are returned
+ * unchanged.
+ */
+export async function decryptMessage<T extends Ably.Message>(
+  message: T,
+  encryption: Encryption,
+): Promise<T> {
+  if (!isEncrypted(message)) return message;
+
+  const { [ENCRYPTION_HEADER]: _removed, ...headers } = message.extras.headers as Record<
+    string,
+    string
+  >;
+  for (const key of ENCRYPTED_HEADERS) {
+    if (headers[key] != null) headers[key] = await encryption.decrypt(headers[key]);
+  }
+
+  const { data } = message;
+  let decrypted = data;
+  if (typeof data === 'string' && data !== '') {
+    const segments = splitSegments(data);
+    decrypted = (await Promise.all(segments.map((s) => encryption.decrypt(s)))).join('');
+  }
+  return { ...message, data: decrypted, extras: { ...message.extras, headers } };
+}
+
+/**
+ * Undo the publisher's encoding of a received message: decrypt, then
+ * decompress. Throws if the message is encrypted but no encryption is given.
+ */
+export async function decodeMessage(
+  message: Ably.InboundMessage,
+  options: { encryption?: Encryption; compressionCodecs?: CompressionCodec[] } = {},
+): Promise<Ably.InboundMessage> {
+  const { encryption, compressionCodecs } = options;
+  if (isEncrypted(message) && !encryption) {
+    throw new Error('Received an encrypted message but no encryption is configured');
+  }
+  const decrypted = encryption ? await decryptMessage(message, encryption) : message;
+  return decompressMessage(decrypted, compressionCodecs);
+}
+
+function splitSegments(data: string): string[] {
+  const segments: string[] = [];
+  let i = 0;
+  while (i < data.length) {
+    const colon = data.indexOf(':', i);
+    const length = Number(data.slice(i, colon));
+    if (colon === -1 || !Number.isInteger(length) || colon + 1 + length > data.length) {
+      throw new Error('Malformed encrypted message data');
+    }
+    segments.push(data.slice(colon + 1, colon + 1 + length));
+    i = colon + 1 + length;
+  }
+  return segments;
+}
@@ -2,9 +2,62 @@ export { AblyChatTransport } from './client/AblyChatTransport';
 export type { AblyChatTransportOptions, LoadChatHistoryResult } from './client/AblyChatTransport';
 export { debugStream, debugTransport } from './client/debugStream';
 export { publishToAbly } from './server/publishToAbly';
-export type { PublishToAblyOptions } from './server/publishToAbly';
+export type {
+  PublishToAblyOptions,
+  CoalesceOptions,
+  CompressionOptions,
+  PublishStats,
+  MirrorOptions,
+  PublishChannel,
+} from './server/publishToAbly';
+export { gzipCodec, decompressMessage } from './compression';
+export type { CompressionCodec } from './compression';
+export { aesGcmEncryption, encryptMessage, decryptMessage } from './encryption';
+export type { Encryption } from './encryption';
+export { publishAndRespond } from './server/publishAndRespond';
+export type { PublishAndRespondOptions, PublishAndRespondResult } from './server/publishAndRespond';
+export { rewriteText } from './server/rewriteText';
+export type { RewriteTextOptions } from './server/rewriteText';
+export { retractResponse } from './server/retractResponse';
+export type { RetractResponseOptions, RetractChannel } from './server/retractResponse';
+export { inMemoryCheckpointStore } from './server/checkpoints';
+export type { CheckpointStore, GenerationCheckpoint } from './server/checkpoints';
+export { inMemoryConversationStore, fileConversationStore } from './server/conversationStore';
+export type { ConversationStore, FileConversationStoreOptions } from './server/conversationStore';
+export { isRetryableAblyError } from './server/retry';
+export type { RetryPolicy } from './server/retry';
+export type { ChunkTransform, ChunkTransformResult } from './server/transformChunk';
 export { subscribeToChannel } from './server/subscribeToChannel';
-export type { SubscribeToChannelOptions } from './server/subscribeToChannel';
-export { reconstructMessages } from './shared';
+export type { SubscribeToChannelOptions, PromptRequest } from './server/subscribeToChannel';
+export { AgentManager } from './server/AgentManager';
+export type {
+  AgentManagerOptions,
+  AgentChannelState,
+  AgentChannelStatus,
+} from './server/AgentManager';
+export {
+  reconstructMessages,
+  applyRewrites,
+  applyRewrite,
+  applyTombstones,
+  applyRetraction,
+  applyToolApprovals,
+  applyToolResults,
+  FEEDBACK_ANNOTATION_TYPE,
+} from './shared';
+export type {
+  PartRewrite,
+  Rewrite,
+  Tombstone,
+  Retraction,
+  Feedback,
+  FeedbackRating,
+  MessageFeedback,
+  ToolApprovalDecision,
+  ToolResult,
+  AgentTarget,
+  AgentClaim,
+} from './shared';
+export { PROTOCOL_VERSION } from './protocol';
 export { noopLogger } from './logger';
 export type { Logger } from './logger';
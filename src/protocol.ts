@@ -0,0 +1,52 @@
+import type { InboundMessage } from 'ably';
+
+/**
+ * Version of the wire protocol: message names (`text:<id>`, `tool:<callId>:<name>`,
+ * `tool-output:<callId>`, `step-finish`, ...), header conventions and payload
+ * shapes. Bump it whenever any of these change incompatibly, and add a decoder
+ * that maps the previous version onto the new one.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** Header carrying the protocol version a message was published with. */
+export const PROTOCOL_VERSION_HEADER = 'protocolVersion';
+
+/** Version assumed for messages published before the protocol was versioned. */
+export const LEGACY_PROTOCOL_VERSION = 0;
+
+/** Maps a message published at a given version onto the current version's format. */
+type Decoder = (message: InboundMessage) => InboundMessage;
+
+/** Legacy messages already use the same names, headers and payloads as version 1. */
+const decodeLegacy: Decoder = (message) => message;
+
+const decoders: Record<number, Decoder> = {
+  [LEGACY_PROTOCOL_VERSION]: decodeLegacy,
+  1: (message) => message,
+};
+
+/** Protocol version of a message; messages without the header are legacy. */
+export function getProtocolVersion(message: InboundMessage): number {
+  const header = message.extras?.headers?.[PROTOCOL_VERSION_HEADER];
+  return header == null ? LEGACY_PROTOCOL_VERSION : Number(header);
+}
+
+export function isSupportedProtocolVersion(version: number): boolean {
+  return decoders[version] != null;
+}
+
+/**
+ * Normalize a message onto the current protocol version so handlers only deal
+ * with one format. Throws for versions this build cannot read — typically a
+ * message from a newer server than the client was built against.
+ */
+export function decodeWireMessage(message: InboundMessage): InboundMessage {
+  const version = getProtocolVersion(message);
+  if (!isSupportedProtocolVersion(version)) {
+    throw new Error(
+      `Unsupported protocol version ${message.extras?.headers?.[PROTOCOL_VERSION_HEADER]} on ` +
+        `"${message.name}" (supported up to ${PROTOCOL_VERSION}); upgrade @ably/ai-sdk-transport`,
+    );
+  }
+  return decoders[version](message);
+}
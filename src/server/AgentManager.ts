@@ -0,0 +1,215 @@
+import type * as Ably from 'ably';
+import { subscribeToChannel } from './subscribeToChannel';
+import type { SubscribeToChannelOptions } from './subscribeToChannel';
+import { noopLogger } from '../logger';
+import type { Logger } from '../logger';
+
+export interface AgentManagerOptions {
+  /** Ably Realtime client the manager gets channels from. */
+  ably: Ably.Realtime;
+  /** Options for `subscribeToChannel` on every channel the agent joins. */
+  subscribeOptions: Omit<SubscribeToChannelOptions, 'channel'>;
+  /** Options for each channel, e.g. `modes` including `ANNOTATION_SUBSCRIBE` for `onFeedback`. */
+  channelOptions?: Ably.ChannelOptions;
+  /**
+   * Leave a channel once nothing has been published on it for this many
+   * milliseconds, and no generation is in flight on it. Defaults to 10
+   * minutes; `0` disables eviction.
+   */
+  idleTimeout?: number;
+  /** Maximum number of channels served at once. Joins beyond it are rejected. */
+  maxChannels?: number;
+  logger?: Logger;
+}
+
+export type AgentChannelState = 'joining' | 'active' | 'leaving';
+
+export interface AgentChannelStatus {
+  channelName: string;
+  state: AgentChannelState;
+  /** When the agent started joining the channel (ms since the epoch). */
+  joinedAt: number;
+  /** When a message was last published on the channel, or the join time (ms since the epoch). */
+  lastActivityAt: number;
+}
+
+interface ManagedChannel {
+  status: AgentChannelStatus;
+  channel: Ably.RealtimeChannel;
+  listener: (message: Ably.InboundMessage) => void;
+  /** Settles when the join does; rejects if it failed. */
+  joined: Promise<void>;
+  cleanup?: () => Promise<void>;
+  /** Whether a generation is in flight, which keeps the channel from being evicted. */
+  generating: boolean;
+  left?: Promise<void>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Serves an agent on many channels: one `subscribeToChannel` per channel,
+ * joined on demand, left when idle, and all drained on `close()`.
+ */
+export class AgentManager {
+  private readonly ably: Ably.Realtime;
+  private readonly subscribeOptions: Omit<SubscribeToChannelOptions, 'channel'>;
+  private readonly channelOptions?: Ably.ChannelOptions;
+  private readonly idleTimeout: number;
+  private readonly maxChannels: number;
+  private readonly logger: Logger;
+  private readonly managed = new Map<string, ManagedChannel>();
+  private closed = false;
+
+  constructor(options: AgentManagerOptions) {
+    this.ably = options.ably;
+    this.subscribeOptions = options.subscribeOptions;
+    this.channelOptions = options.channelOptions;
+    this.idleTimeout = options.idleTimeout ?? 10 * 60 * 1000;
+    this.maxChannels = options.maxChannels ?? Infinity;
+    this.logger = options.logger ?? options.subscribeOptions.logger ?? noopLogger;
+  }
+
+  /**
+   * Start serving `channelName`. Resolves once the agent is subscribed and
+   * has seeded the conversation; joining a channel that is already served,
+   * or being joined, waits for that join instead. Throws if the manager is
+   * closed or already serving `maxChannels` channels.
+   */
+  async join(channelName: string): Promise<void> {
+    if (this.closed) throw new Error('AgentManager is closed');
+
+    const existing = this.managed.get(channelName);
+    if (existing?.left) {
+      // Rejoin once the channel has been left
+      await existing.left;
+      return this.join(channelName);
+    }
+    if (existing) return existing.joined;
+
+    if (this.managed.size >= this.maxChannels) {
+      throw new Error(`Agent is already serving the maximum of ${this.maxChannels} channels`);
+    }
+
+    const now = Date.now();
+    const status: AgentChannelStatus = {
+      channelName,
+      state: 'joining',
+      joinedAt: now,
+      lastActivityAt: now,
+    };
+    const entry: ManagedChannel = {
+      status,
+      channel: this.ably.channels.get(channelName, this.channelOptions),
+      listener: () => {
+        status.lastActivityAt = Date.now();
+      },
+      joined: Promise.resolve(),
+      generating: false,
+    };
+    entry.joined = this.subscribe(entry);
+    this.managed.set(channelName, entry);
+    return entry.joined;
+  }
+
+  /**
+   * Stop serving `channelName`: abort its in-flight generation, unsubscribe
+   * and detach. Resolves once the channel is left.
+   */
+  async leave(channelName: string): Promise<void> {
+    const entry = this.managed.get(channelName);
+    if (!entry) return;
+    if (!entry.left) {
+      entry.status.state = 'leaving';
+      clearTimeout(entry.timer);
+      entry.left = this.teardown(entry).finally(() => {
+        this.managed.delete(channelName);
+      });
+    }
+    return entry.left;
+  }
+
+  /** Status of a channel, or `undefined` if the agent is not serving it. */
+  status(channelName: string): AgentChannelStatus | undefined {
+    const entry = this.managed.get(channelName);
+    return entry && { ...entry.status };
+  }
+
+  /** Status of every channel the agent is serving. */
+  channels(): AgentChannelStatus[] {
+    return [...this.managed.values()].map((entry) => ({ ...entry.status }));
+  }
+
+  /** Leave every channel and reject further joins. Resolves once all channels are left. */
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.all([...this.managed.keys()].map((name) => this.leave(name)));
+  }
+
+  private async subscribe(entry: ManagedChannel): Promise<void> {
+    const { channel, status } = entry;
+    try {
+      await channel.subscribe(entry.listener);
+      entry.cleanup = await subscribeToChannel({
+        ...this.subscribeOptions,
+        channel,
+        onGeneratingChange: (generating) => {
+          entry.generating = generating;
+          // The idle period starts once the generation ends
+          status.lastActivityAt = Date.now();
+          this.subscribeOptions.onGeneratingChange?.(generating);
+        },
+      });
+    } catch (err) {
+      channel.unsubscribe(entry.listener);
+      if (!entry.left) this.managed.delete(status.channelName);
+      throw err;
+    }
+    if (entry.left) return;
+    status.state = 'active';
+    this.logger.debug(`Joined channel ${status.channelName}`);
+    this.scheduleEviction(entry);
+  }
+
+  private async teardown(entry: ManagedChannel): Promise<void> {
+    const { channel, status } = entry;
+    // A failed join has nothing to undo
+    const joined = await entry.joined.then(
+      () => true,
+      () => false,
+    );
+    if (!joined) return;
+
+    channel.unsubscribe(entry.listener);
+    await entry.cleanup?.();
+    await channel.detach().catch((err) => {
+      this.logger.warn(`Failed to detach channel ${status.channelName}:`, err);
+    });
+    try {
+      this.ably.channels.release(status.channelName);
+    } catch (err) {
+      this.logger.warn(`Failed to release channel ${status.channelName}:`, err);
+    }
+    this.logger.debug(`Left channel ${status.channelName}`);
+  }
+
+  /** Leave the channel when it has been idle for `idleTimeout`, checking again until it is. */
+  private scheduleEviction(entry: ManagedChannel): void {
+    if (this.idleTimeout <= 0) return;
+    // A generation can wait on a slow tool call without publishing anything
+    const idleFor = entry.generating ? 0 : Date.now() - entry.status.lastActivityAt;
+    entry.timer = setTimeout(
+      () => {
+        if (entry.left) return;
+        if (entry.generating || Date.now() - entry.status.lastActivityAt < this.idleTimeout) {
+          this.scheduleEviction(entry);
+          return;
+        }
+        this.logger.info(`Leaving idle channel ${entry.status.channelName}`);
+        this.leave(entry.status.channelName).catch((err) => {
+          this.logger.error(`Error leaving idle channel ${entry.status.channelName}:`, err);
+        });
+      },
+      Math.max(0, this.idleTimeout - idleFor),
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Persisted progress of a generation, saved by `publishToAbly` so that a
+ * restarted worker can resume or terminate a generation its predecessor left
+ * open.
+ */
+export interface GenerationCheckpoint {
+  channelName: string;
+  promptId: string;
+  /**
+   * Serials of the text, reasoning and tool-input parts still open, keyed by
+   * the chunk's part id (text/reasoning `id` or `toolCallId`).
+   */
+  serials: Record<
+    string,
+    { serial: string; type: 'text' | 'reasoning' | 'tool-input'; name: string }
+  >;
+  /**
+   * Number of chunks read from the stream whose messages, deltas included,
+   * Ably had accepted when the checkpoint was saved.
+   */
+  position: number;
+  /** When the checkpoint was saved (ms since the epoch). */
+  updatedAt: number;
+}
+
+/**
+ * Storage for generation checkpoints, keyed by channel name and promptId.
+ * Back it with something that outlives the worker (Redis, a database) for
+ * checkpoints to survive a crash.
+ */
+export interface CheckpointStore {
+  save: (checkpoint: GenerationCheckpoint) => Promise<void>;
+  load: (channelName: string, promptId: string) => Promise<GenerationCheckpoint | undefined>;
+  delete: (channelName: string, promptId: string) => Promise<void>;
+  /** All checkpoints for a channel — generations that have not yet published a terminal. */
+  list: (channelName: string) => Promise<GenerationCheckpoint[]>;
+}
+
+/** A process-local checkpoint store, for tests and single-process development. */
+export function inMemoryCheckpointStore(): CheckpointStore {
+  const checkpoints = new Map<string, GenerationCheckpoint>();
+  const key = (channelName: string, promptId: string) => `${channelName}\u0000${promptId}`;
+
+  return {
+    async save(checkpoint) {
+      checkpoints.set(
+        key(checkpoint.channelName, checkpoint.promptId),
+        structuredClone(checkpoint),
+      );
+    },
+    async load(channelName, promptId) {
+      const checkpoint = checkpoints.get(key(channelName, promptId));
+      return checkpoint && structuredClone(checkpoint);
+    },
+    async delete(channelName, promptId) {
+      checkpoints.delete(key(channelName, promptId));
+    },
+    async list(channelName) {
+      return [...checkpoints.values()]
+        .filter((c) => c.channelName === channelName)
+        .map((c) => structuredClone(c));
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import type { UIMessage } from 'ai';
+
+/**
+ * Storage for the conversation `subscribeToChannel` passes to its handler,
+ * keyed by channel name. Back it with something that outlives the worker (a
+ * database, a shared volume) to keep conversations longer than the history
+ * window across restarts, and share it between replicas so they agree.
+ */
+export interface ConversationStore {
+  /** The conversation on a channel, oldest first, or `undefined` if none is stored. */
+  load: (channelName: string) => Promise<UIMessage[] | undefined>;
+  /** Add messages to the end of the conversation. */
+  append: (channelName: string, messages: UIMessage[]) => Promise<void>;
+  /** Replace the whole conversation. */
+  replace: (channelName: string, messages: UIMessage[]) => Promise<void>;
+  /** Keep the first `length` messages of the conversation and drop the rest. */
+  truncate: (channelName: string, length: number) => Promise<void>;
+}
+
+/** A process-local conversation store, and the default for `subscribeToChannel`. */
+export function inMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<string, UIMessage[]>();
+
+  return {
+    async load(channelName) {
+      const messages = conversations.get(channelName);
+      return messages && structuredClone(messages);
+    },
+    async append(channelName, messages) {
+      const existing = conversations.get(channelName) ?? [];
+      conversations.set(channelName, [...existing, ...structuredClone(messages)]);
+    },
+    async replace(channelName, messages) {
+      conversations.set(channelName, structuredClone(messages));
+    },
+    async truncate(channelName, length) {
+      const existing = conversations.get(channelName);
+      if (existing) conversations.set(channelName, existing.slice(0, length));
+    },
+  };
+}
+
+export interface FileConversationStoreOptions {
+  /** Directory holding one JSON Lines file per channel. Created if missing. */
+  directory: string;
+}
+
+/**
+ * A conversation store that keeps each channel's conversation in a JSON Lines
+ * file, one message per line. Writes from this process are serialized per
+ * channel; it does not lock against other processes sharing the directory.
+ * Node.js only.
+ */
+export function fileConversationStore(options: FileConversationStoreOptions): ConversationStore {
+  const { directory } = options;
+  // Loaded on first use so importing the package stays free of Node built-ins
+  const modules = Promise.all([import('node:fs/promises'), import('node:path')]);
+  const queues = new Map<string, Promise<unknown>>();
+
+  /** Run `operation` after the channel's earlier operations have settled. */
+  const enqueue = <T>(channelName: string, operation: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(channelName) ?? Promise.resolve();
+    const next = previous.then(operation, operation);
+    const settled = next.catch(() => {});
+    queues.set(channelName, settled);
+    settled.then(() => {
+      if (queues.get(channelName) === settled) queues.delete(channelName);
+    });
+    return next;
+  };
+
+  const fileFor = async (channelName: string) => {
+    const [, path] = await modules;
+    return path.join(directory, `${encodeURIComponent(channelName)}.jsonl`);
+  };
+
+  const serialize = (messages: UIMessage[]) =>
+    messages.map((m) => `${JSON.stringify(m)}\n`).join('');
+
+  const read = async (channelName: string): Promise<UIMessage[] | undefined> => {
+    const [fs] = await modules;
+    let contents: string;
+    try {
+      contents = await fs.readFile(await fileFor(channelName), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+    return contents
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line) as UIMessage);
+  };
+
+  /** Write the whole file through a temporary file, so readers never see it half-written. */
+  const write = async (channelName: string, messages: UIMessage[]) => {
+    const [fs] = await modules;
+    const file = await fileFor(channelName);
+    const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(temporary, serialize(messages), 'utf8');
+    await fs.rename(temporary, file);
+  };
+
+  return {
+    load: (channelName) => enqueue(channelName, () => read(channelName)),
+    append: (channelName, messages) =>
+      enqueue(channelName, async () => {
+        const [fs] = await modules;
+        await fs.mkdir(directory, { recursive: true });
+        await fs.appendFile(await fileFor(channelName), serialize(messages), 'utf8');
+      }),
+    replace: (channelName, messages) => enqueue(channelName, () => write(channelName, messages)),
+    truncate: (channelName, length) =>
+      enqueue(channelName, async () => {
+        const messages = await read(channelName);
+        if (messages && messages.length > length) {
+          await write(channelName, messages.slice(0, length));
+        }
+      }),
+  };
+}
@@ -0,0 +1,45 @@
+import type { UIMessageChunk } from 'ai';
+import { createUIMessageStreamResponse } from 'ai';
+import { publishToAbly } from './publishToAbly';
+import type { PublishToAblyOptions } from './publishToAbly';
+import { applyChunkTransforms } from './transformChunk';
+
+export interface PublishAndRespondOptions extends PublishToAblyOptions {
+  /** Status and headers for the returned response. */
+  responseInit?: ResponseInit;
+}
+
+export interface PublishAndRespondResult {
+  /** AI SDK UI message stream (SSE) response carrying the same generation. */
+  response: Response;
+  /** Settles when publishing to the channel ends, like `publishToAbly()`. */
+  published: Promise<UIMessageChunk[]>;
+}
+
+/**
+ * Tee a generation: publish it to the channel and also return it as a standard
+ * AI SDK UI message stream response, for callers that can't hold an Ably
+ * connection (e.g. server-to-server requests).
+ *
+ * `transformChunk` runs once, before the tee, so both consumers see the same
+ * chunks. Channel history stays the source of truth for resuming: if the HTTP
+ * client disconnects, publishing carries on; if publishing fails, the response
+ * still completes.
+ */
+export function publishAndRespond(options: PublishAndRespondOptions): PublishAndRespondResult {
+  const { stream, transformChunk, responseInit, ...publishOptions } = options;
+  const source = transformChunk ? applyChunkTransforms(stream, transformChunk) : stream;
+  const [channelBranch, responseBranch] = source.tee();
+
+  const published = publishToAbly({ ...publishOptions, stream: channelBranch }).catch((err) => {
+    // Stop buffering chunks for a branch nobody will read. Not awaited: a tee
+    // branch's cancel only settles once the other branch is done too.
+    channelBranch.cancel(err).catch(() => {});
+    throw err;
+  });
+
+  return {
+    response: createUIMessageStreamResponse({ ...responseInit, stream: responseBranch }),
+    published,
+  };
+}
@@ -2,41 +2,555 @@ import type * as Ably from 'ably';
 import type { UIMessageChunk } from 'ai';
 import { noopLogger } from '../logger';
 import type { Logger } from '../logger';
+import { FRAGMENT_NAME, TERMINAL_NAMES } from '../shared';
+import { COMPRESSION_HEADER, gzipCodec } from '../compression';
+import type { CompressionCodec } from '../compression';
+import { encryptMessage } from '../encryption';
+import type { Encryption } from '../encryption';
+import { PROTOCOL_VERSION, PROTOCOL_VERSION_HEADER } from '../protocol';
+import { isRejectedAblyError, isRetryableAblyError, withRetry } from './retry';
+import { applyChunkTransforms } from './transformChunk';
+import type { CheckpointStore, GenerationCheckpoint } from './checkpoints';
+import type { ChunkTransform } from './transformChunk';
+import type { RetryPolicy } from './retry';
+
+/**
+ * The channel operations `publishToAbly` uses. Satisfied by both a realtime
+ * channel and a REST channel (`new Ably.Rest(...).channels.get(name)`).
+ */
+export type PublishChannel = Pick<
+  Ably.Channel,
+  'name' | 'publish' | 'appendMessage' | 'updateMessage'
+>;
 
 export interface PublishToAblyOptions {
-  channel: Ably.RealtimeChannel;
+  /**
+   * Channel to publish to. With a REST channel, every operation is its own
+   * HTTP request, so appends and updates to the same message are sent one at
+   * a time.
+   */
+  channel: PublishChannel;
   stream: ReadableStream<UIMessageChunk>;
   abortSignal?: AbortSignal;
+  /**
+   * Prompt this generation answers. When set, every published message gets a
+   * deterministic Ably `id` (`<promptId>:<chunk ordinal>:<part id>`), so Ably
+   * deduplicates a publish that is retried or repeated after a crash.
+   */
   promptId?: string;
   logger?: Logger;
+  /**
+   * Merge consecutive text, reasoning and tool-input deltas for the same stream
+   * into a single append. Opt-in — when omitted, every delta is appended as soon
+   * as it is read.
+   */
+  coalesce?: CoalesceOptions;
+  /**
+   * Maximum number of appends allowed in flight at once. When reached, reading
+   * from `stream` pauses until outstanding appends settle, applying backpressure
+   * to the producer. Defaults to unbounded.
+   */
+  maxPendingAppends?: number;
+  /**
+   * Retry failed publishes, appends and updates instead of ending the
+   * generation with an `error`. While set, appends and updates to the same
+   * serial are sent one at a time so a retried delta can never overtake a later
+   * one, nor a tool output the input it follows. Appends are only retried when
+   * Ably rejected them, as one that timed out may have been applied.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Largest payload (UTF-8 bytes of `data`) sent in a single message. Larger
+   * tool outputs, files and data parts are split into ordered `fragment`
+   * messages that clients reassemble. Defaults to 60 KiB, leaving headroom for
+   * the name and headers under Ably's default 64 KiB limit; lower it to match
+   * your account's limit.
+   */
+  maxMessageSize?: number;
+  /**
+   * Compress tool outputs, files and data parts above a size threshold. Opt-in.
+   * Compressed messages carry a `compression` header naming the codec, and the
+   * transport decompresses them transparently.
+   */
+  compression?: CompressionOptions;
+  /**
+   * Encrypt message data and sensitive headers (`providerMetadata`, `title`)
+   * before publishing. Ciphertext is larger than plaintext, so lower
+   * `maxMessageSize` accordingly (about 3/4 of your limit for base64 ciphers).
+   */
+  encryption?: Encryption;
+  /**
+   * Transform, drop or split each chunk before it is published, e.g. to redact
+   * PII. An array runs as a chain. The returned chunks are the transformed ones.
+   */
+  transformChunk?: ChunkTransform | ChunkTransform[];
+  /** Called once per generation, after the stream ends or fails, with publish statistics. */
+  onStats?: (stats: PublishStats) => void;
+  /**
+   * Additional channels to mirror the generation to (e.g. audit or supervisor
+   * channels), each with its own options and serials. Mirrors receive chunks
+   * after `transformChunk`. A failing mirror is logged and dropped without
+   * affecting the primary channel or the other mirrors. `stream` is read only
+   * as fast as the slowest of them takes chunks, so `maxPendingAppends` on the
+   * primary or on any mirror applies backpressure to the producer, and a slow
+   * mirror slows the primary channel too.
+   */
+  mirrors?: MirrorOptions[];
+  /**
+   * Save the open serials and stream position after each chunk, once Ably has
+   * accepted its messages, so a worker that restarts after a crash can
+   * `resume` the generation or terminate it (see `subscribeToChannel`).
+   * Requires a `promptId`. The checkpoint is deleted once the generation ends.
+   */
+  checkpoints?: CheckpointStore;
+  /**
+   * Continue a generation from a checkpoint left by a previous worker. `stream`
+   * supplies the chunks after the checkpoint; deltas and ends for parts that
+   * were open are appended to their existing serials. `promptId` defaults to
+   * the checkpoint's.
+   */
+  resume?: GenerationCheckpoint;
+  /**
+   * Serials of the tool calls already published for the message this
+   * generation continues (e.g. after tool approvals), by tool call id. Their
+   * outputs, errors and denials are sent as updates to these serials. Mirrors
+   * have no such tool calls, so they skip them.
+   */
+  toolCalls?: Record<string, string>;
+}
+
+/** A secondary channel for `mirrors`. Options apply to this channel only. */
+export interface MirrorOptions extends Omit<
+  PublishToAblyOptions,
+  'stream' | 'abortSignal' | 'promptId' | 'logger' | 'mirrors' | 'resume' | 'toolCalls'
+> {
+  /** Don't mirror reasoning parts. */
+  omitReasoning?: boolean;
+  /** Only mirror `data-*` parts marked `transient` (e.g. status updates for a supervisor). */
+  transientOnly?: boolean;
+}
+
+/** Per-generation statistics reported through `onStats`. */
+export interface PublishStats {
+  /** Messages published, including terminals and fragments. */
+  publishes: number;
+  appends: number;
+  updates: number;
+  /** UTF-8 bytes of message data accepted by Ably, after compression and encryption. */
+  bytesSent: number;
+  /** Time from the call until Ably accepted the first message, or `null` if none was. */
+  timeToFirstPublishMs: number | null;
+  /** Time from the call until the stream ended or failed. */
+  durationMs: number;
+  /** Failed attempts that were retried under the `retry` policy. */
+  retries: number;
+  /** Terminal published to close the generation, or `null` if none was. */
+  terminalReason: 'finish' | 'error' | 'abort' | null;
+}
+
+export interface CompressionOptions {
+  /** Codec to compress with. Defaults to gzip (base64-encoded). */
+  codec?: CompressionCodec;
+  /** Minimum payload size (UTF-8 bytes) worth compressing. Defaults to 1024. */
+  threshold?: number;
+}
+
+type Extras = { headers: Record<string, string>; ephemeral?: boolean };
+
+export interface CoalesceOptions {
+  /** Maximum time (ms) a delta may be held before it is appended. Defaults to 50. */
+  maxDelayMs?: number;
+  /** Maximum buffered size (UTF-8 bytes) before the deltas are appended. Defaults to 4096. */
+  maxBytes?: number;
 }
 
 interface SerialState {
   serial: string;
   type: 'text' | 'reasoning' | 'tool-input';
+  name: string;
+}
+
+/** Deltas held back for a single serial while coalescing. */
+interface DeltaBuffer {
+  data: string;
+  bytes: number;
+  event: string;
+  extras: { headers: Record<string, string> };
+  timer: ReturnType<typeof setTimeout>;
 }
 
+const DEFAULT_MAX_MESSAGE_SIZE = 60 * 1024;
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+const DEFAULT_COALESCE_DELAY_MS = 50;
+const DEFAULT_COALESCE_MAX_BYTES = 4096;
+
 export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMessageChunk[]> {
-  const { channel, stream, abortSignal, promptId, logger = noopLogger } = options;
+  const {
+    channel,
+    stream,
+    abortSignal,
+    resume,
+    promptId = resume?.promptId,
+    toolCalls = {},
+    coalesce,
+    maxPendingAppends,
+    retry,
+    maxMessageSize = DEFAULT_MAX_MESSAGE_SIZE,
+    compression,
+    encryption,
+    transformChunk,
+    onStats,
+    mirrors = [],
+    checkpoints,
+    logger = noopLogger,
+  } = options;
+
+  const startedAt = Date.now();
+  const stats: PublishStats = {
+    publishes: 0,
+    appends: 0,
+    updates: 0,
+    bytesSent: 0,
+    timeToFirstPublishMs: null,
+    durationMs: 0,
+    retries: 0,
+    terminalReason: null,
+  };
 
-  const serials = new Map<string, SerialState>();
-  const pendingAppends: Promise<unknown>[] = [];
+  const serials = new Map<string, SerialState>(Object.entries(resume?.serials ?? {}));
+  /** Serial of a tool call published by this generation or, for a continued message, an earlier one. */
+  const toolCallSerial = (toolCallId: string) =>
+    serials.get(toolCallId)?.serial ?? toolCalls[toolCallId];
+  /** Text and reasoning parts that have ended, by chunk id — the targets of `data-rewrite`. */
+  const endedParts = new Map<string, SerialState>();
+  const pendingAppends = new Set<Promise<unknown>>();
+  // First append that failed — settled appends leave the set, so keep the error to rethrow
+  let appendFailure: { error: unknown } | null = null;
+  const deltaBuffers = new Map<string, DeltaBuffer>();
+  // A realtime connection delivers operations in the order they were sent; REST
+  // requests, retries and encryption don't, so operations are queued per serial.
+  const queueAppends = retry != null || encryption != null || !isRealtimeChannel(channel);
+  /** Tail of the operation queue for each serial — only used when `queueAppends` is set. */
+  const serialChains = new Map<string, Promise<unknown>>();
   const extras = makeExtras(promptId);
   const chunks: UIMessageChunk[] = [];
 
-  const reader = stream.getReader();
+  const transformed = transformChunk ? applyChunkTransforms(stream, transformChunk) : stream;
+  const [source, ...mirrorSources] =
+    mirrors.length > 0 ? teeMany(transformed, mirrors.length + 1) : [transformed];
+  const mirrorsDone = mirrors.map((mirror, i) =>
+    publishMirror(mirror, mirrorSources[i], { abortSignal, promptId, logger }),
+  );
+  const reader = source.getReader();
+  // Chunks read so far — the ordinal of the chunk being published
+  let ordinal = resume?.position ?? 0;
+  // Chunks fully handled — what a checkpoint's position covers
+  let handled = ordinal;
+  /** Checkpoint saves queued by `checkpointWhenSent`, in order. */
+  let checkpointChain = Promise.resolve();
   let terminalPublished = false; // Terminal is a marker for the complete end of the stream: finish, error, or abort
 
+  /**
+   * Run `operation` under the `retry` policy. Operations that would repeat
+   * their effect if retried after they took hold, such as appends, pass
+   * `idempotent: false` to be retried only when Ably rejected them.
+   */
+  function withRetries<T>(
+    description: string,
+    operation: () => Promise<T>,
+    idempotent = true,
+  ): Promise<T> {
+    if (!retry) return operation();
+    const { isRetryable = isRetryableAblyError } = retry;
+    const policy = idempotent
+      ? retry
+      : { ...retry, isRetryable: (err: unknown) => isRetryable(err) && isRejectedAblyError(err) };
+    return withRetry(operation, policy, (err, attempt, delayMs) => {
+      stats.retries++;
+      logger.warn(
+        `[publish] ${description} failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`,
+        err,
+      );
+    });
+  }
+
+  function seal<T extends Ably.Message>(message: T): Promise<T> {
+    return encryption ? encryptMessage(message, encryption) : Promise.resolve(message);
+  }
+
+  /** Count a message once Ably has accepted it. */
+  function recordSent(kind: 'publishes' | 'appends' | 'updates', message: Ably.Message) {
+    stats[kind]++;
+    if (typeof message.data === 'string') stats.bytesSent += byteLength(message.data);
+    if (stats.timeToFirstPublishMs === null) stats.timeToFirstPublishMs = Date.now() - startedAt;
+  }
+
+  /**
+   * Publish a message created for the current chunk. `partId` identifies the
+   * part within the chunk and defaults to the message name.
+   */
+  async function publish(message: Ably.Message, partId = message.name) {
+    const id = promptId ? `${promptId}:${ordinal}:${partId}` : undefined;
+    const sealed = await seal(id ? { ...message, id } : message);
+    const result = await withRetries(`publish ${message.name}`, () => channel.publish(sealed));
+    recordSent('publishes', sealed);
+    if (message.name && TERMINAL_NAMES.has(message.name)) {
+      stats.terminalReason = message.name as PublishStats['terminalReason'];
+    }
+    return result;
+  }
+
+  /**
+   * Name a text or reasoning part after the id of the message that creates it,
+   * so a part republished by a retry or a restarted worker keeps its name and
+   * clients recognise the duplicate. Without a `promptId` the name is random.
+   */
+  function partName(type: 'text' | 'reasoning', chunkId: string): string {
+    return `${type}:${promptId ? `${promptId}:${ordinal}:${chunkId}` : crypto.randomUUID()}`;
+  }
+
+  /**
+   * Run an append or update for `serial` once every operation queued before it
+   * for that serial has been sent, so an update never overtakes an append.
+   */
+  function enqueue<T>(serial: string, operation: () => Promise<T>): Promise<T> {
+    if (!queueAppends) return operation();
+    const previous = serialChains.get(serial) ?? Promise.resolve();
+    const next = previous.then(operation);
+    serialChains.set(serial, next);
+    const cleanup = () => {
+      if (serialChains.get(serial) === next) serialChains.delete(serial);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  function update(message: Ably.Message & { serial: string }, operation?: Ably.MessageOperation) {
+    return enqueue(message.serial, async () => {
+      const sealed = await seal(message);
+      const result = await withRetries(`update ${message.name}`, () =>
+        channel.updateMessage(sealed, operation),
+      );
+      recordSent('updates', sealed);
+      return result;
+    });
+  }
+
+  function append(message: Ably.Message & { serial: string }, event: string) {
+    if (!queueAppends) {
+      return channel.appendMessage(message, { metadata: { event } }).then((result) => {
+        recordSent('appends', message);
+        return result;
+      });
+    }
+
+    return enqueue(message.serial, async () => {
+      const sealed = await seal(message);
+      const result = await withRetries(
+        `append ${event}`,
+        () => channel.appendMessage(sealed, { metadata: { event } }),
+        false,
+      );
+      recordSent('appends', sealed);
+      return result;
+    });
+  }
+
+  async function saveCheckpoint(
+    progress: Pick<GenerationCheckpoint, 'serials' | 'position'> = {
+      serials: Object.fromEntries(serials),
+      position: ordinal,
+    },
+  ) {
+    if (!checkpoints || !promptId) return;
+    try {
+      await checkpoints.save({
+        channelName: channel.name,
+        promptId,
+        ...progress,
+        updatedAt: Date.now(),
+      });
+    } catch (err) {
+      logger.warn('[publish] failed to save checkpoint:', err);
+    }
+  }
+
+  /**
+   * Checkpoint the chunks published so far once Ably has accepted every append
+   * they issued, so the position never counts a delta that has not landed.
+   * Saves stay in order. While deltas are held back for coalescing, the
+   * checkpoint waits for them to be flushed.
+   */
+  function checkpointWhenSent() {
+    if (!checkpoints || !promptId || deltaBuffers.size > 0) return;
+    const progress = { serials: Object.fromEntries(serials), position: handled };
+    const covered = [...pendingAppends];
+    checkpointChain = checkpointChain.then(() =>
+      Promise.all(covered).then(
+        () => saveCheckpoint(progress),
+        // The generation fails with the append, so the checkpoint stays behind it
+        () => {},
+      ),
+    );
+  }
+
+  async function deleteCheckpoint() {
+    if (!checkpoints || !promptId) return;
+    try {
+      await checkpoints.delete(channel.name, promptId);
+    } catch (err) {
+      logger.warn('[publish] failed to delete checkpoint:', err);
+    }
+  }
+
+  /** Compress `data` when it is above the threshold and compression actually shrinks it. */
+  async function compressPayload(
+    data: string,
+    payloadExtras: Extras,
+  ): Promise<{ data: string; extras: Extras }> {
+    if (!compression) return { data, extras: payloadExtras };
+    const threshold = compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+    if (byteLength(data) < threshold) return { data, extras: payloadExtras };
+
+    const codec = compression.codec ?? gzipCodec;
+    const compressed = await codec.compress(data);
+    // Incompressible data can grow once base64-encoded — send it as is
+    if (compressed.length >= data.length) return { data, extras: payloadExtras };
+    return {
+      data: compressed,
+      extras: {
+        ...payloadExtras,
+        headers: { ...payloadExtras.headers, [COMPRESSION_HEADER]: codec.name },
+      },
+    };
+  }
+
+  /**
+   * Prepare a discrete payload (tool output, file, data part) for sending.
+   *
+   * The payload is compressed whole first. If it is still over
+   * `maxMessageSize`, it is published first as ordered `fragment` messages;
+   * the returned carrier then has empty data, a `fragmentId` header so clients
+   * can reassemble the payload, and the `compression` header if the reassembled
+   * payload must be decompressed.
+   */
+  async function preparePayload(
+    data: string,
+    carrierExtras: Extras,
+  ): Promise<{ data: string; extras: Extras }> {
+    const payload = await compressPayload(data, carrierExtras);
+    if (byteLength(payload.data) <= maxMessageSize) return payload;
+
+    const fragmentId = crypto.randomUUID();
+    const pieces = splitByBytes(payload.data, maxMessageSize);
+    logger.debug(
+      `[publish] splitting ${payload.data.length} chars into ${pieces.length} fragments`,
+    );
+    for (const [index, piece] of pieces.entries()) {
+      await publish(
+        {
+          name: FRAGMENT_NAME,
+          data: piece,
+          extras: {
+            ...(carrierExtras.ephemeral ? { ephemeral: true } : {}),
+            headers: { ...extras.headers, fragmentId, fragmentIndex: String(index) },
+          },
+        },
+        `${FRAGMENT_NAME}:${index}`,
+      );
+    }
+    return {
+      data: '',
+      extras: {
+        ...payload.extras,
+        headers: { ...payload.extras.headers, fragmentId, fragmentCount: String(pieces.length) },
+      },
+    };
+  }
+
+  /** Append a delta, or buffer it when coalescing is enabled. */
+  function appendDelta(
+    serial: string,
+    data: string,
+    event: string,
+    deltaExtras: { headers: Record<string, string> },
+  ) {
+    if (!coalesce) {
+      trackAppend(append({ serial, data, extras: deltaExtras }, event));
+      return;
+    }
+
+    let buffer = deltaBuffers.get(serial);
+    if (!buffer) {
+      buffer = {
+        data: '',
+        bytes: 0,
+        event,
+        extras: deltaExtras,
+        timer: setTimeout(() => {
+          flushDelta(serial);
+          checkpointWhenSent();
+        }, coalesce.maxDelayMs ?? DEFAULT_COALESCE_DELAY_MS),
+      };
+      deltaBuffers.set(serial, buffer);
+    }
+    buffer.data += data;
+    buffer.bytes += byteLength(data);
+    // Latest delta wins for headers (e.g. providerMetadata), as on the client
+    buffer.extras = deltaExtras;
+
+    if (buffer.bytes >= (coalesce.maxBytes ?? DEFAULT_COALESCE_MAX_BYTES)) {
+      flushDelta(serial);
+    }
+  }
+
+  /** Append any buffered deltas for a serial as one message. */
+  function flushDelta(serial: string) {
+    const buffer = deltaBuffers.get(serial);
+    if (!buffer) return;
+    clearTimeout(buffer.timer);
+    deltaBuffers.delete(serial);
+    trackAppend(append({ serial, data: buffer.data, extras: buffer.extras }, buffer.event));
+  }
+
+  function trackAppend(append: Promise<unknown>) {
+    pendingAppends.add(append);
+    append.then(
+      () => pendingAppends.delete(append),
+      (error) => {
+        pendingAppends.delete(append);
+        appendFailure ??= { error };
+      },
+    );
+  }
+
+  function throwIfAppendFailed() {
+    if (appendFailure) throw appendFailure.error;
+  }
+
   async function flushAppends() {
-    await Promise.all(pendingAppends);
-    pendingAppends.length = 0;
+    for (const serial of [...deltaBuffers.keys()]) flushDelta(serial);
+    while (pendingAppends.size > 0) {
+      await Promise.allSettled([...pendingAppends]);
+    }
+    throwIfAppendFailed();
+  }
+
+  /** Pause until the number of in-flight appends drops below `maxPendingAppends`. */
+  async function waitForAppendCapacity() {
+    if (maxPendingAppends == null || pendingAppends.size < maxPendingAppends) return;
+    logger.debug(`[publish] ${pendingAppends.size} appends in flight — pausing stream`);
+    while (pendingAppends.size >= maxPendingAppends) {
+      await Promise.race(pendingAppends).catch(() => {});
+    }
+    throwIfAppendFailed();
   }
 
   async function publishAbortSequence(reason?: string) {
     await flushAppends();
 
     if (!terminalPublished) {
-      await channel.publish({
+      await publish({
         name: 'abort',
         data: JSON.stringify(reason != null ? { reason } : {}),
         extras,
@@ -51,10 +565,16 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
     abortSignal?.addEventListener('abort', onAbort, { once: true });
   }
 
+  // Set once the generation has ended without the worker failing mid-way
+  let ended = false;
+
   try {
+    await saveCheckpoint();
     while (true) {
+      await waitForAppendCapacity();
       const { done, value: chunk } = await reader.read();
       if (done) break;
+      ordinal++;
       chunks.push(chunk);
       logger.debug('Chunk:', chunk.type, chunk);
 
@@ -65,7 +585,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
           if (chunk.messageId != null) startData.messageId = chunk.messageId;
           if (chunk.messageMetadata != null) startData.messageMetadata = chunk.messageMetadata;
           if (Object.keys(startData).length > 0) {
-            await channel.publish({
+            await publish({
               name: 'start',
               data: JSON.stringify(startData),
               extras,
@@ -80,17 +600,17 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         }
 
         case 'finish-step': {
-          logger.debug(`[publish] finish-step — flushing ${pendingAppends.length} pending appends`);
+          logger.debug(`[publish] finish-step — flushing ${pendingAppends.size} pending appends`);
           await flushAppends();
-          await channel.publish({ name: 'step-finish', data: '{}', extras });
+          await publish({ name: 'step-finish', data: '{}', extras });
           break;
         }
 
         case 'finish': {
-          logger.debug(`[publish] finish — flushing ${pendingAppends.length} pending appends`);
+          logger.debug(`[publish] finish — flushing ${pendingAppends.size} pending appends`);
           await flushAppends();
           terminalPublished = true;
-          await channel.publish({
+          await publish({
             name: 'finish',
             data: JSON.stringify({
               finishReason: chunk.finishReason,
@@ -110,7 +630,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'error': {
           await flushAppends();
           terminalPublished = true;
-          await channel.publish({
+          await publish({
             name: 'error',
             data: JSON.stringify({ errorText: chunk.errorText }),
             extras,
@@ -119,7 +639,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         }
 
         case 'message-metadata': {
-          await channel.publish({
+          await publish({
             name: 'metadata',
             data: JSON.stringify({
               messageMetadata: chunk.messageMetadata,
@@ -131,17 +651,21 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
 
         // ── Text streaming ────────────────────────────
         case 'text-start': {
-          const uniqueId = crypto.randomUUID();
-          const result = await channel.publish({
-            name: `text:${uniqueId}`,
-            data: '',
-            extras: withOptionalHeaders(extras, {
-              providerMetadata: (chunk as any).providerMetadata,
-            }),
-          });
+          const name = partName('text', chunk.id);
+          const result = await publish(
+            {
+              name,
+              data: '',
+              extras: withOptionalHeaders(extras, {
+                providerMetadata: (chunk as any).providerMetadata,
+              }),
+            },
+            `text:${chunk.id}`,
+          );
           serials.set(chunk.id, {
             serial: result.serials[0]!,
             type: 'text',
+            name,
           });
           break;
         }
@@ -149,17 +673,13 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'text-delta': {
           const state = serials.get(chunk.id);
           if (!state) throw new Error(`No serial for text ${chunk.id}`);
-          pendingAppends.push(
-            channel.appendMessage(
-              {
-                serial: state.serial,
-                data: chunk.delta,
-                extras: withOptionalHeaders(extras, {
-                  providerMetadata: (chunk as any).providerMetadata,
-                }),
-              },
-              { metadata: { event: 'text-delta' } },
-            ),
+          appendDelta(
+            state.serial,
+            chunk.delta,
+            'text-delta',
+            withOptionalHeaders(extras, {
+              providerMetadata: (chunk as any).providerMetadata,
+            }),
           );
           break;
         }
@@ -167,8 +687,9 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'text-end': {
           const state = serials.get(chunk.id);
           if (!state) throw new Error(`No serial for text ${chunk.id}`);
-          pendingAppends.push(
-            channel.appendMessage(
+          flushDelta(state.serial);
+          trackAppend(
+            append(
               {
                 serial: state.serial,
                 data: '',
@@ -176,26 +697,31 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
                   providerMetadata: (chunk as any).providerMetadata,
                 }),
               },
-              { metadata: { event: 'text-end' } },
+              'text-end',
             ),
           );
+          endedParts.set(chunk.id, state);
           serials.delete(chunk.id);
           break;
         }
 
         // ── Reasoning streaming ───────────────────────
         case 'reasoning-start': {
-          const uniqueId = crypto.randomUUID();
-          const result = await channel.publish({
-            name: `reasoning:${uniqueId}`,
-            data: '',
-            extras: withOptionalHeaders(extras, {
-              providerMetadata: (chunk as any).providerMetadata,
-            }),
-          });
+          const name = partName('reasoning', chunk.id);
+          const result = await publish(
+            {
+              name,
+              data: '',
+              extras: withOptionalHeaders(extras, {
+                providerMetadata: (chunk as any).providerMetadata,
+              }),
+            },
+            `reasoning:${chunk.id}`,
+          );
           serials.set(chunk.id, {
             serial: result.serials[0]!,
             type: 'reasoning',
+            name,
           });
           break;
         }
@@ -203,17 +729,13 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'reasoning-delta': {
           const state = serials.get(chunk.id);
           if (!state) throw new Error(`No serial for reasoning ${chunk.id}`);
-          pendingAppends.push(
-            channel.appendMessage(
-              {
-                serial: state.serial,
-                data: chunk.delta,
-                extras: withOptionalHeaders(extras, {
-                  providerMetadata: (chunk as any).providerMetadata,
-                }),
-              },
-              { metadata: { event: 'reasoning-delta' } },
-            ),
+          appendDelta(
+            state.serial,
+            chunk.delta,
+            'reasoning-delta',
+            withOptionalHeaders(extras, {
+              providerMetadata: (chunk as any).providerMetadata,
+            }),
           );
           break;
         }
@@ -221,8 +743,9 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'reasoning-end': {
           const state = serials.get(chunk.id);
           if (!state) throw new Error(`No serial for reasoning ${chunk.id}`);
-          pendingAppends.push(
-            channel.appendMessage(
+          flushDelta(state.serial);
+          trackAppend(
+            append(
               {
                 serial: state.serial,
                 data: '',
@@ -230,17 +753,19 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
                   providerMetadata: (chunk as any).providerMetadata,
                 }),
               },
-              { metadata: { event: 'reasoning-end' } },
+              'reasoning-end',
             ),
           );
+          endedParts.set(chunk.id, state);
           serials.delete(chunk.id);
           break;
         }
 
         // ── Tool lifecycle ────────────────────────────
         case 'tool-input-start': {
-          const result = await channel.publish({
-            name: `tool:${chunk.toolCallId}:${chunk.toolName}`,
+          const name = `tool:${chunk.toolCallId}:${chunk.toolName}`;
+          const result = await publish({
+            name,
             data: '',
             extras: withOptionalHeaders(extras, {
               dynamic: (chunk as any).dynamic,
@@ -252,6 +777,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
           serials.set(chunk.toolCallId, {
             serial: result.serials[0]!,
             type: 'tool-input',
+            name,
           });
           break;
         }
@@ -259,12 +785,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'tool-input-delta': {
           const state = serials.get(chunk.toolCallId);
           if (!state) throw new Error(`No serial for tool ${chunk.toolCallId}`);
-          pendingAppends.push(
-            channel.appendMessage(
-              { serial: state.serial, data: chunk.inputTextDelta, extras },
-              { metadata: { event: 'tool-input-delta' } },
-            ),
-          );
+          appendDelta(state.serial, chunk.inputTextDelta, 'tool-input-delta', extras);
           break;
         }
 
@@ -272,16 +793,13 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
           const state = serials.get(chunk.toolCallId);
           if (state) {
             // Streaming tool call: send end signal
-            pendingAppends.push(
-              channel.appendMessage(
-                { serial: state.serial, data: '', extras },
-                { metadata: { event: 'tool-input-end' } },
-              ),
-            );
+            flushDelta(state.serial);
+            trackAppend(append({ serial: state.serial, data: '', extras }, 'tool-input-end'));
           } else {
             // Non-streaming tool call: publish full input
-            const result = await channel.publish({
-              name: `tool:${chunk.toolCallId}:${chunk.toolName}`,
+            const name = `tool:${chunk.toolCallId}:${chunk.toolName}`;
+            const result = await publish({
+              name,
               data: JSON.stringify(chunk.input),
               extras: withOptionalHeaders(
                 makeExtras(promptId, { event: 'tool-input-available' }),
@@ -296,35 +814,41 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
             serials.set(chunk.toolCallId, {
               serial: result.serials[0]!,
               type: 'tool-input',
+              name,
             });
           }
           break;
         }
 
         case 'tool-output-available': {
-          const state = serials.get(chunk.toolCallId);
-          if (!state) throw new Error(`No serial for tool ${chunk.toolCallId}`);
-          await channel.updateMessage({
-            serial: state.serial,
-            name: `tool-output:${chunk.toolCallId}`,
-            data: JSON.stringify(withOptionalData(
-              { output: chunk.output },
-              {
-                preliminary: (chunk as any).preliminary,
-                dynamic: (chunk as any).dynamic,
-                providerExecuted: (chunk as any).providerExecuted,
-              },
-            )),
+          const serial = toolCallSerial(chunk.toolCallId);
+          if (!serial) throw new Error(`No serial for tool ${chunk.toolCallId}`);
+          const payload = await preparePayload(
+            JSON.stringify(
+              withOptionalData(
+                { output: chunk.output },
+                {
+                  preliminary: (chunk as any).preliminary,
+                  dynamic: (chunk as any).dynamic,
+                  providerExecuted: (chunk as any).providerExecuted,
+                },
+              ),
+            ),
             extras,
+          );
+          await update({
+            serial,
+            name: `tool-output:${chunk.toolCallId}`,
+            ...payload,
           });
           break;
         }
 
         case 'tool-output-error': {
-          const state = serials.get(chunk.toolCallId);
-          if (!state) throw new Error(`No serial for tool ${chunk.toolCallId}`);
-          await channel.updateMessage({
-            serial: state.serial,
+          const serial = toolCallSerial(chunk.toolCallId);
+          if (!serial) throw new Error(`No serial for tool ${chunk.toolCallId}`);
+          await update({
+            serial,
             name: `tool-error:${chunk.toolCallId}`,
             data: JSON.stringify(withOptionalData(
               { errorText: chunk.errorText },
@@ -341,7 +865,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         case 'tool-input-error': {
           const state = serials.get(chunk.toolCallId);
           if (state) {
-            await channel.updateMessage({
+            await update({
               serial: state.serial,
               name: `tool-error:${chunk.toolCallId}`,
               data: JSON.stringify(withOptionalData(
@@ -362,7 +886,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         // ── Tool approval/denial ────────────────────────
         case 'tool-approval-request': {
           const c = chunk as any;
-          await channel.publish({
+          await publish({
             name: `tool-approval:${c.toolCallId}`,
             data: JSON.stringify({ approvalId: c.approvalId }),
             extras,
@@ -372,10 +896,10 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
 
         case 'tool-output-denied': {
           const c = chunk as any;
-          const state = serials.get(c.toolCallId);
-          if (state) {
-            await channel.updateMessage({
-              serial: state.serial,
+          const serial = toolCallSerial(c.toolCallId);
+          if (serial) {
+            await update({
+              serial,
               name: `tool-denied:${c.toolCallId}`,
               data: '{}',
               extras,
@@ -384,21 +908,40 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
           break;
         }
 
+        // ── Rewrite of a finished part ────────────────
+        case 'data-rewrite': {
+          const { id, text } = (chunk as { data: { id: string; text: string } }).data;
+          const part = endedParts.get(id);
+          if (!part) throw new Error(`No finished text or reasoning part ${id} to rewrite`);
+          // The part's end append must land before its replacement
+          await flushAppends();
+          await update(
+            { serial: part.serial, name: part.name, data: text, extras },
+            { metadata: { event: `${part.type}-rewrite` } },
+          );
+          // Record the rewritten text rather than the rewrite itself
+          chunks.pop();
+          rewriteRecordedPart(chunks, part.type as 'text' | 'reasoning', id, text);
+          break;
+        }
+
         // ── Discrete events ───────────────────────────
         case 'file': {
-          await channel.publish({
-            name: 'file',
-            data: JSON.stringify(withOptionalData(
-              { url: chunk.url, mediaType: chunk.mediaType },
-              { providerMetadata: (chunk as any).providerMetadata },
-            )),
+          const payload = await preparePayload(
+            JSON.stringify(
+              withOptionalData(
+                { url: chunk.url, mediaType: chunk.mediaType },
+                { providerMetadata: (chunk as any).providerMetadata },
+              ),
+            ),
             extras,
-          });
+          );
+          await publish({ name: 'file', ...payload });
           break;
         }
 
         case 'source-url': {
-          await channel.publish({
+          await publish({
             name: 'source-url',
             data: JSON.stringify(withOptionalData(
               {
@@ -414,7 +957,7 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
         }
 
         case 'source-document': {
-          await channel.publish({
+          await publish({
             name: 'source-document',
             data: JSON.stringify(withOptionalData(
               {
@@ -440,31 +983,37 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
               id?: string;
               transient?: boolean;
             };
-            await channel.publish({
-              name: dataChunk.type,
-              data: JSON.stringify({
+            const payload = await preparePayload(
+              JSON.stringify({
                 data: dataChunk.data,
                 ...(dataChunk.id != null ? { id: dataChunk.id } : {}),
               }),
-              ...(dataChunk.transient
-                ? { extras: { ephemeral: true, ...makeExtras(promptId) } }
-                : { extras }),
-            });
+              dataChunk.transient ? { ephemeral: true, ...makeExtras(promptId) } : extras,
+            );
+            await publish({ name: dataChunk.type, ...payload });
           }
           break;
         }
       }
+
+      handled = ordinal;
+      if (!terminalPublished) checkpointWhenSent();
     }
 
     if (abortSignal?.aborted) {
       await publishAbortSequence();
     }
 
+    ended = true;
     return chunks;
   } catch (err) {
+    // Stop the producer, or with mirrors, stop this branch holding them back
+    reader.cancel(err).catch(() => {});
     if (!terminalPublished) {
+      // Deliver whatever text was buffered before the error terminal
+      await flushAppends().catch(() => {});
       const errorText = err instanceof Error ? err.message : 'Unknown stream error';
-      await channel.publish({
+      await publish({
         name: 'error',
         data: JSON.stringify({ errorText }),
         extras,
@@ -472,13 +1021,208 @@ export async function publishToAbly(options: PublishToAblyOptions): Promise<UIMe
     }
     throw err;
   } finally {
+    for (const buffer of deltaBuffers.values()) clearTimeout(buffer.timer);
+    deltaBuffers.clear();
     abortSignal?.removeEventListener('abort', onAbort);
     reader.releaseLock();
+    await checkpointChain;
+    // Keep the checkpoint only if the generation was left open, so a restarted
+    // worker can still terminate it
+    if (ended || stats.terminalReason !== null) await deleteCheckpoint();
+    await Promise.all(mirrorsDone);
+    if (onStats) {
+      stats.durationMs = Date.now() - startedAt;
+      try {
+        onStats({ ...stats });
+      } catch (err) {
+        logger.warn('[publish] onStats callback threw:', err);
+      }
+    }
+  }
+}
+
+/** Replace the deltas of the last recorded part `id` with a single delta of `text`. */
+function rewriteRecordedPart(
+  chunks: UIMessageChunk[],
+  type: 'text' | 'reasoning',
+  id: string,
+  text: string,
+): void {
+  const isPart = (c: UIMessageChunk, kind: string) =>
+    c.type === `${type}-${kind}` && (c as { id: string }).id === id;
+  let start = chunks.length - 1;
+  while (start >= 0 && !isPart(chunks[start], 'start')) start--;
+  if (start < 0) return;
+  const rest = chunks.slice(start + 1).filter((c) => !isPart(c, 'delta'));
+  const delta = { type: `${type}-delta`, id, delta: text } as UIMessageChunk;
+  chunks.splice(start + 1, chunks.length - start - 1, delta, ...rest);
+}
+
+function isRealtimeChannel(channel: PublishChannel): boolean {
+  return 'attach' in channel;
+}
+
+/**
+ * Split a stream into `count` branches that each receive every chunk. Unlike
+ * chained `tee()`s, the source is only read once every open branch has asked
+ * for the next chunk, so a branch that pauses reading (e.g. under
+ * `maxPendingAppends`) pauses the others rather than having chunks buffered
+ * for it without limit. A cancelled branch stops holding the others back.
+ */
+function teeMany<T>(stream: ReadableStream<T>, count: number): ReadableStream<T>[] {
+  const reader = stream.getReader();
+  const controllers: ReadableStreamDefaultController<T>[] = [];
+  const open = new Set<number>();
+  /** Pending pulls of the open branches, resolved once the next chunk is delivered. */
+  const waiting = new Map<number, () => void>();
+  let reading = false;
+
+  async function readWhenAllWaiting() {
+    if (reading || open.size === 0 || [...open].some((i) => !waiting.has(i))) return;
+    reading = true;
+    try {
+      const { done, value } = await reader.read();
+      for (const i of open) {
+        if (done) controllers[i].close();
+        else controllers[i].enqueue(value);
+      }
+      if (done) open.clear();
+    } catch (err) {
+      for (const i of open) controllers[i].error(err);
+      open.clear();
+    } finally {
+      reading = false;
+    }
+    const pulls = [...waiting.values()];
+    waiting.clear();
+    for (const resolve of pulls) resolve();
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    open.add(i);
+    return new ReadableStream<T>(
+      {
+        start(controller) {
+          controllers[i] = controller;
+        },
+        pull() {
+          return new Promise<void>((resolve) => {
+            waiting.set(i, resolve);
+            void readWhenAllWaiting();
+          });
+        },
+        async cancel(reason) {
+          open.delete(i);
+          waiting.get(i)?.();
+          waiting.delete(i);
+          if (open.size === 0) await reader.cancel(reason);
+          else await readWhenAllWaiting();
+        },
+      },
+      { highWaterMark: 0 },
+    );
+  });
+}
+
+/** Drop reasoning parts, along with any rewrites of them. */
+function omitReasoningChunks(): ChunkTransform {
+  const reasoningIds = new Set<string>();
+  return (chunk) => {
+    if (chunk.type === 'reasoning-start') reasoningIds.add(chunk.id);
+    if (chunk.type.startsWith('reasoning-')) return null;
+    if (chunk.type === 'data-rewrite') {
+      const { id } = (chunk as { data: { id: string } }).data;
+      if (reasoningIds.has(id)) return null;
+    }
+    return chunk;
+  };
+}
+
+const transientDataOnly: ChunkTransform = (chunk) =>
+  chunk.type.startsWith('data-') && (chunk as { transient?: boolean }).transient ? chunk : null;
+
+/**
+ * Drop outputs, errors and denials for tool calls whose input a mirror never
+ * published, such as those of the message a generation continues after tool
+ * approvals: the primary channel updates its own tool calls, but the mirror
+ * has none to update.
+ */
+function knownToolCallsOnly(logger: Logger): ChunkTransform {
+  const toolCallIds = new Set<string>();
+  return (chunk) => {
+    if (chunk.type === 'tool-input-start' || chunk.type === 'tool-input-available') {
+      toolCallIds.add(chunk.toolCallId);
+    }
+    if (
+      (chunk.type === 'tool-output-available' ||
+        chunk.type === 'tool-output-error' ||
+        chunk.type === 'tool-output-denied') &&
+      !toolCallIds.has(chunk.toolCallId)
+    ) {
+      logger.debug(`[publish] mirror skipping ${chunk.type} for unknown tool ${chunk.toolCallId}`);
+      return null;
+    }
+    return chunk;
+  };
+}
+
+/** Publish one mirror's branch. Never rejects: a failed mirror is logged and its branch cancelled. */
+async function publishMirror(
+  mirror: MirrorOptions,
+  branch: ReadableStream<UIMessageChunk>,
+  shared: Pick<PublishToAblyOptions, 'abortSignal' | 'promptId'> & { logger: Logger },
+): Promise<void> {
+  const { omitReasoning, transientOnly, transformChunk, ...options } = mirror;
+  const transforms: ChunkTransform[] = [];
+  if (omitReasoning) transforms.push(omitReasoningChunks());
+  if (transientOnly) transforms.push(transientDataOnly);
+  if (Array.isArray(transformChunk)) transforms.push(...transformChunk);
+  else if (transformChunk) transforms.push(transformChunk);
+  transforms.push(knownToolCallsOnly(shared.logger));
+  const stream = applyChunkTransforms(branch, transforms);
+
+  try {
+    await publishToAbly({ ...options, ...shared, stream });
+  } catch (err) {
+    shared.logger.warn(`[publish] mirror to ${mirror.channel.name} failed:`, err);
+    // Stop this branch holding back the primary and the other mirrors
+    stream.cancel(err).catch(() => {});
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+function byteLength(str: string): number {
+  return textEncoder.encode(str).byteLength;
+}
+
+/** Split a string into pieces of at most `maxBytes` UTF-8 bytes, without breaking characters. */
+function splitByBytes(str: string, maxBytes: number): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  let bytes = 0;
+  let i = 0;
+  while (i < str.length) {
+    const code = str.charCodeAt(i);
+    const isPair = code >= 0xd800 && code <= 0xdbff && i + 1 < str.length;
+    const size = isPair ? 4 : code < 0x80 ? 1 : code < 0x800 ? 2 : 3;
+    if (bytes + size > maxBytes && i > start) {
+      pieces.push(str.slice(start, i));
+      start = i;
+      bytes = 0;
+    }
+    bytes += size;
+    i += isPair ? 2 : 1;
   }
+  if (start < str.length) pieces.push(str.slice(start));
+  return pieces;
 }
 
-function makeExtras(promptId?: string, extra?: Record<string, string>) {
-  const headers: Record<string, string> = { role: 'assistant' };
+export function makeExtras(promptId?: string, extra?: Record<string, string>) {
+  const headers: Record<string, string> = {
+    role: 'assistant',
+    [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION),
+  };
   if (promptId) headers.promptId = promptId;
   if (extra) Object.assign(headers, extra);
   return { headers };
@@ -0,0 +1,82 @@
+import type * as Ably from 'ably';
+import { CLAIM_NAME, TERMINAL_NAMES, parseJsonData } from '../shared';
+import { decodeMessage } from '../encryption';
+import type { Encryption } from '../encryption';
+
+/** The channel operations `retractResponse` uses — realtime and REST channels both qualify. */
+export type RetractChannel = Pick<Ably.Channel, 'history' | 'deleteMessage'>;
+
+export interface RetractResponseOptions {
+  channel: RetractChannel;
+  /** Prompt whose response to retract. Either this or `messageId` is required. */
+  promptId?: string;
+  /** Id of the assistant `UIMessage` to retract, resolved to its prompt through history. */
+  messageId?: string;
+  /** Recorded on each delete and surfaced in the tombstone part. */
+  reason?: string;
+  /** Number of history messages searched for the response. Defaults to 100. */
+  historyLimit?: number;
+  /** Needed to resolve a `messageId` when responses are encrypted. */
+  encryption?: Encryption;
+}
+
+/** Lifecycle messages that carry no content, kept so the conversation's structure survives. */
+const KEPT_NAMES = new Set(['start', 'step-finish', CLAIM_NAME, ...TERMINAL_NAMES]);
+
+/**
+ * Retract an assistant response by deleting its content messages from the
+ * channel. Clients and `reconstructMessages` show a `data-tombstone` part in
+ * place of the retracted content. Resolves with the number of messages
+ * deleted.
+ */
+export async function retractResponse(options: RetractResponseOptions): Promise<number> {
+  const { channel, messageId, reason, historyLimit = 100, encryption } = options;
+  if (options.promptId == null && messageId == null) {
+    throw new Error('retractResponse needs a promptId or messageId');
+  }
+
+  const { items } = await channel.history({ limit: historyLimit });
+  const promptId = options.promptId ?? (await findPromptId(items, messageId!, encryption));
+  if (promptId == null) {
+    throw new Error(
+      `No response with message id "${messageId}" in the last ${historyLimit} messages`,
+    );
+  }
+
+  const content = items.filter((m) => {
+    const headers = m.extras?.headers;
+    return (
+      headers?.role === 'assistant' &&
+      headers.promptId === promptId &&
+      m.action !== 'message.delete' &&
+      !KEPT_NAMES.has(m.name ?? '')
+    );
+  });
+  const operation: Ably.MessageOperation = {
+    metadata: { event: 'retract', ...(reason != null ? { reason } : {}) },
+  };
+  // Empty data explicitly, as deletes keep any field left unset
+  await Promise.all(
+    content.map((m) => channel.deleteMessage({ serial: m.serial, data: '' }, operation)),
+  );
+  return content.length;
+}
+
+/** Find the prompt that produced the assistant message `messageId`. */
+async function findPromptId(
+  items: Ably.InboundMessage[],
+  messageId: string,
+  encryption: Encryption | undefined,
+): Promise<string | undefined> {
+  for (const item of items) {
+    const headers = item.extras?.headers;
+    if (headers?.role !== 'assistant' || headers.promptId == null) continue;
+    // The message id comes from `start`, or else from its first text part
+    if (item.name === `text:${messageId}`) return headers.promptId;
+    if (item.name === 'start') {
+      const start = await decodeMessage(item, { encryption });
+      if (parseJsonData(start.data).messageId === messageId) return headers.promptId;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,79 @@
+/**
+ * Retry policy for channel operations made by `publishToAbly`.
+ *
+ * Delays grow exponentially from `initialDelayMs` by `backoffMultiplier`, are
+ * capped at `maxDelayMs`, and are then randomised by `jitter` so that many
+ * publishers recovering from the same outage don't retry in lockstep.
+ */
+export interface RetryPolicy {
+  /** Total attempts per operation, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry (ms). Defaults to 100. */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay (ms). Defaults to 2000. */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each retry. Defaults to 2. */
+  backoffMultiplier?: number;
+  /** Fraction (0–1) by which each delay is randomly shortened or lengthened. Defaults to 0.2. */
+  jitter?: number;
+  /** Whether an error is worth retrying. Defaults to {@link isRetryableAblyError}. */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Default retry predicate: retries network/connection failures, rate limiting
+ * and server errors, but not client errors such as bad credentials or a
+ * missing channel rule, which would fail again.
+ */
+export function isRetryableAblyError(error: unknown): boolean {
+  if (error == null || typeof error !== 'object') return true;
+  const { statusCode, code } = error as { statusCode?: number; code?: number };
+  if (code != null && code >= 80000 && code < 90000) return true; // connection errors
+  if (statusCode == null) return true;
+  return statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Whether an error shows that Ably turned the operation away without applying
+ * it: rate limiting, or the service being unavailable. After a timeout, a
+ * dropped connection or another server error, the operation may have been
+ * applied all the same.
+ */
+export function isRejectedAblyError(error: unknown): boolean {
+  if (error == null || typeof error !== 'object') return false;
+  const { statusCode } = error as { statusCode?: number };
+  return statusCode === 429 || statusCode === 503;
+}
+
+/**
+ * Run `operation`, retrying failures according to `policy`. The last error is
+ * rethrown once attempts are exhausted or the error is not retryable.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void,
+): Promise<T> {
+  const {
+    maxAttempts = 3,
+    initialDelayMs = 100,
+    maxDelayMs = 2000,
+    backoffMultiplier = 2,
+    jitter = 0.2,
+    isRetryable = isRetryableAblyError,
+  } = policy;
+
+  let delay = initialDelayMs;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      if (attempt >= maxAttempts || !isRetryable(err)) throw err;
+      const capped = Math.min(delay, maxDelayMs);
+      const delayMs = Math.max(0, capped * (1 + jitter * (Math.random() * 2 - 1)));
+      onRetry?.(err, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      delay *= backoffMultiplier;
+    }
+  }
+}
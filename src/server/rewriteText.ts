@@ -0,0 +1,47 @@
+import type * as Ably from 'ably';
+import { encryptMessage } from '../encryption';
+import type { Encryption } from '../encryption';
+import { makeExtras } from './publishToAbly';
+import type { PublishChannel } from './publishToAbly';
+
+export interface RewriteTextOptions {
+  channel: PublishChannel;
+  /** The finished `text:` or `reasoning:` message to replace, e.g. from channel history. */
+  message: Pick<Ably.InboundMessage, 'serial' | 'name' | 'extras'>;
+  /** The replacement text. */
+  text: string;
+  /** Must match the `encryption` the response was published with. */
+  encryption?: Encryption;
+}
+
+/**
+ * Replace the full text of a `text:` or `reasoning:` message that has already
+ * streamed, e.g. to mask a leaked secret. Connected clients are told through
+ * `AblyChatTransport.onRewrite` (or a `data-rewrite` part while the response
+ * still streams), and history returns the new text.
+ *
+ * To rewrite a part while the generation is still streaming, emit a
+ * `data-rewrite` chunk to `publishToAbly` instead.
+ */
+export async function rewriteText(options: RewriteTextOptions): Promise<void> {
+  const { channel, message, text, encryption } = options;
+  const name = message.name ?? '';
+  const type = name.startsWith('text:')
+    ? 'text'
+    : name.startsWith('reasoning:')
+      ? 'reasoning'
+      : null;
+  if (!type) throw new Error(`Only text: and reasoning: messages can be rewritten, not "${name}"`);
+  if (!message.serial) throw new Error(`Cannot rewrite "${name}" without its serial`);
+
+  const promptId = message.extras?.headers?.promptId as string | undefined;
+  const update: Ably.Message = {
+    serial: message.serial,
+    name,
+    data: text,
+    extras: makeExtras(promptId),
+  };
+  await channel.updateMessage(encryption ? await encryptMessage(update, encryption) : update, {
+    metadata: { event: `${type}-rewrite` },
+  });
+}
@@ -1,22 +1,77 @@
 import type * as Ably from 'ably';
 import type { UIMessage, UIMessageChunk } from 'ai';
 import { readUIMessageStream } from 'ai';
-import { reconstructMessages } from '../shared';
+import {
+  AGENT_HEADER,
+  CAPABILITY_HEADER,
+  CLAIM_NAME,
+  FEEDBACK_ANNOTATION_TYPE,
+  FRAGMENT_NAME,
+  TERMINAL_NAMES,
+  applyToolApprovals,
+  applyToolResults,
+  collectFragment,
+  collectToolResults,
+  decompressFragments,
+  parseJsonData,
+  readClaim,
+  reconstructMessages,
+} from '../shared';
+import type { Feedback, ToolApprovalDecision, ToolResult } from '../shared';
+import { decodeMessage, encryptMessage } from '../encryption';
+import type { Encryption } from '../encryption';
+import {
+  PROTOCOL_VERSION,
+  PROTOCOL_VERSION_HEADER,
+  getProtocolVersion,
+  isSupportedProtocolVersion,
+} from '../protocol';
 import { publishToAbly } from './publishToAbly';
+import type { PublishToAblyOptions } from './publishToAbly';
+import type { ChunkTransform } from './transformChunk';
+import type { CheckpointStore } from './checkpoints';
+import { inMemoryConversationStore } from './conversationStore';
+import type { ConversationStore } from './conversationStore';
 import { noopLogger } from '../logger';
 import type { Logger } from '../logger';
 
+/** What a client sent with a prompt, besides the conversation. */
+export interface PromptRequest {
+  /** Id of the `useChat()` chat that sent the prompt. */
+  chatId?: string;
+  /** The message the prompt regenerates, continues or replaces, if any. */
+  messageId?: string;
+  /** Identifies the prompt, and is carried by every message of its response. */
+  promptId?: string;
+  /** Ably `clientId` of the client that sent the prompt, when it has one. */
+  clientId?: string;
+  /** The `body` of the `ChatRequestOptions` the prompt was sent with. */
+  body?: object;
+  /** The `headers` of the `ChatRequestOptions` the prompt was sent with. */
+  headers?: Record<string, string>;
+  /** The `metadata` of the `ChatRequestOptions` the prompt was sent with. */
+  metadata?: unknown;
+}
+
 export interface SubscribeToChannelOptions {
   channel: Ably.RealtimeChannel;
-  handler: (options: {
-    messages: UIMessage[];
-    trigger: 'submit-message' | 'regenerate-message';
-    abortSignal: AbortSignal;
-  }) => Promise<ReadableStream<UIMessageChunk>>;
+  handler: (
+    options: PromptRequest & {
+      messages: UIMessage[];
+      trigger: 'submit-message' | 'regenerate-message';
+      abortSignal: AbortSignal;
+    },
+  ) => Promise<ReadableStream<UIMessageChunk>>;
   /** Maximum number of history messages to fetch when seeding the conversation. Defaults to 100. */
   historyLimit?: number;
   /** Messages to seed the conversation with before history is loaded. */
   initialMessages?: UIMessage[];
+  /**
+   * Where the conversation is kept. A conversation already in the store is
+   * used as is; otherwise it is seeded from `initialMessages` and channel
+   * history. Defaults to an in-memory store.
+   */
+  conversationStore?: ConversationStore;
   /**
    * If provided, enter presence on the channel so clients can detect the agent is online.
    * Uses `enterClient` (suitable for API-key auth without a connection-level clientId).
@@ -24,12 +79,101 @@ export interface SubscribeToChannelOptions {
   presence?: {
     /** The clientId to enter presence with. Defaults to `'agent'`. */
     clientId?: string;
-    /** Additional data to merge with `{ type: 'agent' }`. */
+    /** Additional data to merge with `{ type: 'agent', protocolVersion }`. */
     data?: Record<string, unknown>;
   };
+  /** Options forwarded to `publishToAbly` for every generation (e.g. `coalesce`). */
+  publishOptions?: Omit<
+    PublishToAblyOptions,
+    | 'channel'
+    | 'stream'
+    | 'abortSignal'
+    | 'promptId'
+    | 'logger'
+    | 'encryption'
+    | 'transformChunk'
+    | 'checkpoints'
+    | 'resume'
+  >;
+  /**
+   * Decrypt client messages and history, and encrypt published responses. Must
+   * match the `encryption` configured on the transport.
+   */
+  encryption?: Encryption;
+  /**
+   * Transform, drop or split each chunk before it is published (see
+   * `publishToAbly`), e.g. to redact PII from what reaches the channel.
+   */
+  transformChunk?: ChunkTransform | ChunkTransform[];
+  /**
+   * Record the handler's original chunks, rather than the transformed ones, in
+   * the server's conversation state. Only applies in memory: state seeded from
+   * channel history is always the published version. Defaults to `false`.
+   */
+  retainOriginalChunks?: boolean;
+  /**
+   * Checkpoint each generation (see `publishToAbly`). On startup, generations
+   * checkpointed on this channel but never terminated — left open by a worker
+   * that crashed — are closed with an `error` so clients stop waiting for them.
+   * Only one agent may serve the channel, as every checkpoint found is treated
+   * as orphaned; with `highAvailability`, replicas do this when taking over.
+   */
+  checkpoints?: CheckpointStore;
+  /**
+   * Called with each rating a client gives a response (see
+   * `AblyChatTransport.sendFeedback`). Individual annotations are only
+   * delivered on channels obtained with the `ANNOTATION_SUBSCRIBE` mode.
+   */
+  onFeedback?: (feedback: Feedback) => void | Promise<void>;
+  /**
+   * Called with `true` when a generation starts and `false` when it ends,
+   * e.g. to keep a channel that waits on a slow tool call from being
+   * considered idle.
+   */
+  onGeneratingChange?: (generating: boolean) => void;
+  /**
+   * What to do with a prompt (chat message, regenerate, tool approval
+   * response or tool result) that arrives while a generation is in flight:
+   * - `'abort-previous'` (default): abort the in-flight generation and start the new one.
+   * - `'queue'`: run the new prompt once the earlier ones have finished.
+   * - `'reject'`: answer the new prompt with an `error` terminal and leave it out of the conversation.
+   */
+  concurrency?: 'abort-previous' | 'queue' | 'reject';
+  /**
+   * Identify this agent when several serve the channel. Prompts addressed to
+   * another agent, or needing a capability this one lacks, are ignored. Every
+   * other prompt is claimed with a `claim` message, and only the agent whose
+   * claim comes first answers it. Names must be unique on the channel.
+   * Without it, the agent answers every prompt without claiming it.
+   */
+  agent?: {
+    name: string;
+    capabilities?: string[];
+  };
+  /**
+   * Run as one of several replicas of the same agent, of which only one, the
+   * leader, answers prompts. Replicas enter presence (with `presence` options
+   * if given) and the one that entered first leads. When it leaves, the next
+   * one takes over: it reseeds the conversation from channel history, unless
+   * a `conversationStore` is shared, terminates the generations the leader
+   * checkpointed but never finished, and answers the last prompt left
+   * unanswered.
+   */
+  highAvailability?: {
+    /** Identifies this replica; unique among the replicas. */
+    replicaId: string;
+  };
   logger?: Logger;
 }
 
+/** Client messages that start a generation. */
+const PROMPT_NAMES = new Set([
+  'chat-message',
+  'regenerate',
+  'tool-approval-response',
+  'tool-result',
+]);
+
 export async function subscribeToChannel(
   options: SubscribeToChannelOptions,
 ): Promise<() => Promise<void>> {
@@ -38,15 +182,44 @@ export async function subscribeToChannel(
     handler,
     historyLimit = 100,
     initialMessages = [],
+    conversationStore = inMemoryConversationStore(),
     presence,
+    publishOptions,
+    encryption,
+    transformChunk,
+    retainOriginalChunks = false,
+    checkpoints,
+    onFeedback,
+    onGeneratingChange,
+    concurrency = 'abort-previous',
+    agent,
+    highAvailability,
     logger = noopLogger,
   } = options;
-
-  /** Single conversation state for this channel. */
-  const messages: UIMessage[] = [...initialMessages];
+  // A store passed in may be shared between replicas, so it is never reseeded
+  const sharedConversationStore = options.conversationStore !== undefined;
 
   /** In-flight generation: abort controller + publish promise. */
-  let inflight: { controller: AbortController; done: Promise<void> } | null = null;
+  let inflight: {
+    controller: AbortController;
+    done: Promise<void>;
+    promptId: string | undefined;
+  } | null = null;
+  /** Prompts waiting for the in-flight generation to end, by promptId, so they can be aborted. */
+  const waiting = new Map<string, AbortController>();
+  /** Prompts another agent answers, added to the conversation before this one next answers. */
+  const missed = new Set<string>();
+  /** Prompts this agent has claimed, resolved with the agent whose claim came first. */
+  const claimWaiters = new Map<string, (agentName: string | undefined) => void>();
+  /** Set by cleanup, so prompts still waiting their turn never start. */
+  let stopped = false;
+  /** Whether this replica answers prompts. Only the leader does in high-availability mode. */
+  let leading = !highAvailability;
+  /** The latest prompt a following replica saw that no agent has answered yet. */
+  let unanswered: Ably.InboundMessage | undefined;
+  /** Serializes leader elections. */
+  let election = Promise.resolve();
+  const presenceClientId = presence?.clientId ?? 'agent';
 
   // Gate message handling until history is seeded to avoid processing messages
   // with incomplete conversation state.
@@ -55,188 +228,688 @@ export async function subscribeToChannel(
     resolveReady = r;
   });
 
-  const handleChatMessage = async (message: Ably.InboundMessage) => {
-    await ready;
+  /**
+   * Publish a generation and return the assistant messages to record in
+   * conversation state. A generation that `continues` an assistant message
+   * returns it with the new parts added.
+   */
+  const publishGeneration = async (
+    stream: ReadableStream<UIMessageChunk>,
+    abortSignal: AbortSignal,
+    promptId: string | undefined,
+    continues?: UIMessage,
+    toolCalls?: Record<string, string>,
+  ): Promise<UIMessage[]> => {
+    const originals: UIMessageChunk[] = [];
+    const source = retainOriginalChunks
+      ? stream.pipeThrough(
+          new TransformStream<UIMessageChunk, UIMessageChunk>({
+            transform(chunk, controller) {
+              originals.push(chunk);
+              controller.enqueue(chunk);
+            },
+          }),
+        )
+      : stream;
+
+    const published = await publishToAbly({
+      ...publishOptions,
+      channel,
+      stream: source,
+      abortSignal,
+      promptId,
+      encryption,
+      transformChunk,
+      checkpoints,
+      toolCalls,
+      logger,
+    });
+
+    return accumulateMessages(retainOriginalChunks ? originals : published, continues);
+  };
 
-    if (inflight) {
-      logger.debug('Aborting in-flight generation due to new chat message');
-      inflight.controller.abort();
-      await inflight.done.catch(() => {});
+  /**
+   * Add the prompts other agents answered, with their responses, to the
+   * conversation from channel history, so the handler is given every turn.
+   */
+  const recordMissedTurns = async () => {
+    if (missed.size === 0) return;
+    const promptIds = new Set(missed);
+    missed.clear();
+    try {
+      const history = await loadHistory(false);
+      const turns = reconstructMessages(
+        history.filter((m) => promptIds.has(m.extras?.headers?.promptId)),
+      );
+      const known = new Set(((await conversationStore.load(channel.name)) ?? []).map((m) => m.id));
+      const unknown = turns.filter((m) => !known.has(m.id));
+      if (unknown.length > 0) await conversationStore.append(channel.name, unknown);
+    } catch (err) {
+      logger.warn('Failed to record the turns other agents answered:', err);
     }
+  };
 
-    const { message: userMessage } = JSON.parse(message.data as string) as {
-      message: UIMessage;
-    };
-
-    const promptId = message.extras?.headers?.promptId as string | undefined;
+  /**
+   * Run a prompt's generation once the concurrency policy makes way for it.
+   * The slot is claimed without yielding after it frees up, so two prompts
+   * never both start.
+   */
+  const runGeneration = async (
+    promptId: string | undefined,
+    generate: (abortSignal: AbortSignal) => Promise<void>,
+  ) => {
     const abortController = new AbortController();
-    const messageCountBefore = messages.length;
-
-    // Push user message before calling handler so it's included in the snapshot
-    messages.push(userMessage);
-
-    const publishPromise = (async () => {
-      const stream = await handler({
-        messages: [...messages],
-        trigger: 'submit-message',
-        abortSignal: abortController.signal,
-      });
-
-      const chunks = await publishToAbly({
-        channel,
-        stream,
-        abortSignal: abortController.signal,
-        promptId,
-        logger,
-      });
-
-      const assistantMessages = await accumulateMessages(chunks);
-      messages.push(...assistantMessages);
-    })();
+    if (promptId != null) waiting.set(promptId, abortController);
+    try {
+      while (inflight) {
+        if (concurrency === 'reject') {
+          logger.debug(`Rejecting prompt ${promptId} while a generation is in flight`);
+          await publishError(
+            promptId,
+            'The agent is busy with another response. Try again once it finishes.',
+          );
+          return;
+        }
+        if (concurrency === 'abort-previous') {
+          logger.debug('Aborting in-flight generation due to new prompt');
+          inflight.controller.abort();
+        }
+        await inflight.done.catch(() => {});
+      }
+    } finally {
+      if (promptId != null && waiting.get(promptId) === abortController) waiting.delete(promptId);
+    }
+    // A prompt aborted while waiting was already answered with an `abort` terminal
+    if (stopped || abortController.signal.aborted) return;
 
-    inflight = { controller: abortController, done: publishPromise };
+    const done = recordMissedTurns().then(() => generate(abortController.signal));
+    inflight = { controller: abortController, done, promptId };
+    onGeneratingChange?.(true);
 
     try {
-      await publishPromise;
-    } catch (err) {
-      // Roll back to pre-message state so conversation isn't left inconsistent
-      messages.length = messageCountBefore;
-      throw err;
+      await done;
     } finally {
-      if (inflight?.done === publishPromise) {
+      if (inflight?.done === done) {
         inflight = null;
+        onGeneratingChange?.(false);
       }
     }
   };
 
-  const handleRegenerate = async (message: Ably.InboundMessage) => {
+  const handleChatMessage = async (inbound: Ably.InboundMessage) => {
     await ready;
+    const message = await decodeMessage(inbound, { encryption });
+
+    const data = JSON.parse(message.data as string);
+    const userMessage = data.message as UIMessage;
+    const request = promptRequest(message, data);
+    const { promptId } = request;
+
+    await runGeneration(promptId, async (abortSignal) => {
+      const messages = (await conversationStore.load(channel.name)) ?? [];
+      const messageCountBefore = messages.length;
+
+      // Store user message before calling handler so it's included in the snapshot
+      messages.push(userMessage);
+      await conversationStore.append(channel.name, [userMessage]);
+
+      try {
+        const stream = await handler({
+          ...request,
+          messages,
+          trigger: 'submit-message',
+          abortSignal,
+        });
+        const assistantMessages = await publishGeneration(stream, abortSignal, promptId);
+        await conversationStore.append(channel.name, assistantMessages);
+      } catch (err) {
+        // Roll back to pre-message state so conversation isn't left inconsistent
+        await conversationStore.truncate(channel.name, messageCountBefore);
+        throw err;
+      }
+    });
+  };
 
-    const { messageId } = JSON.parse(message.data as string) as {
-      messageId?: string;
-    };
-
-    // Snapshot for rollback on failure
-    const snapshot = [...messages];
+  const handleRegenerate = async (inbound: Ably.InboundMessage) => {
+    await ready;
+    const message = await decodeMessage(inbound, { encryption });
+
+    const request = promptRequest(message, JSON.parse(message.data as string));
+    const { messageId, promptId } = request;
+
+    // Runs once any in-flight generation has ended, so its messages are stored
+    // before the conversation is truncated
+    await runGeneration(promptId, async (abortSignal) => {
+      // Snapshot for rollback on failure
+      const snapshot = (await conversationStore.load(channel.name)) ?? [];
+
+      // Remove the last assistant message (or the one identified by messageId)
+      let keep = snapshot.length;
+      if (messageId) {
+        const idx = snapshot.findIndex((m) => m.id === messageId);
+        if (idx !== -1) keep = idx;
+      } else {
+        // Remove from the last assistant message onward
+        const idx = snapshot.map((m) => m.role).lastIndexOf('assistant');
+        if (idx !== -1) keep = idx;
+      }
+      await conversationStore.truncate(channel.name, keep);
+
+      try {
+        const stream = await handler({
+          ...request,
+          messages: snapshot.slice(0, keep),
+          trigger: 'regenerate-message',
+          abortSignal,
+        });
+        const assistantMessages = await publishGeneration(stream, abortSignal, promptId);
+        await conversationStore.append(
+          channel.name,
+          assistantMessages.filter((m) => m.parts.length > 0),
+        );
+      } catch (err) {
+        // Roll back to pre-regenerate state
+        await conversationStore.replace(channel.name, snapshot);
+        throw err;
+      }
+    });
+  };
 
-    // Remove the last assistant message (or the one identified by messageId)
-    if (messageId) {
-      const idx = messages.findIndex((m) => m.id === messageId);
-      if (idx !== -1) {
-        messages.splice(idx);
+  /** Continue an assistant message once the client has approved its tool calls or run them. */
+  const handleToolResponse = async (inbound: Ably.InboundMessage) => {
+    await ready;
+    const message = await decodeMessage(inbound, { encryption });
+
+    const data = JSON.parse(message.data as string);
+    const approvals = (data.approvals ?? []) as ToolApprovalDecision[];
+    const results = (data.results ?? []) as ToolResult[];
+    const request = promptRequest(message, data);
+    const { messageId, promptId } = request;
+
+    await runGeneration(promptId, async (abortSignal) => {
+      // Snapshot for rollback on failure
+      const snapshot = (await conversationStore.load(channel.name)) ?? [];
+      const index = snapshot.findIndex((m) => m.id === messageId && m.role === 'assistant');
+      if (index === -1) {
+        logger.warn(`Ignoring tool ${message.name} for unknown message ${messageId}`);
+        await publishError(
+          promptId,
+          `No assistant message ${messageId} to apply tool responses to.`,
+        );
+        return;
       }
-    } else {
-      // Remove from the last assistant message onward
-      for (let i = messages.length - 1; i >= 0; i--) {
-        if (messages[i].role === 'assistant') {
-          messages.splice(i);
-          break;
-        }
+
+      // The decisions and results are recorded on the message, which the
+      // generation continues; anything after it is dropped, as on the client
+      const updated = applyToolResults(applyToolApprovals(snapshot[index], approvals), results);
+      const messages = [...snapshot.slice(0, index), updated];
+      await conversationStore.replace(channel.name, messages);
+
+      try {
+        const toolCalls = await findToolCalls(updated);
+        await publishToolResults(promptId, snapshot[index], updated, toolCalls);
+        const stream = await handler({
+          ...request,
+          messages,
+          trigger: 'submit-message',
+          abortSignal,
+        });
+        const assistantMessages = await publishGeneration(
+          stream,
+          abortSignal,
+          promptId,
+          updated,
+          toolCalls,
+        );
+        await conversationStore.replace(channel.name, [
+          ...snapshot.slice(0, index),
+          ...assistantMessages,
+        ]);
+      } catch (err) {
+        // Roll back to pre-approval state
+        await conversationStore.replace(channel.name, snapshot);
+        throw err;
       }
+    });
+  };
+
+  /** Look up the serials of `message`'s tool calls in history, by tool call id. */
+  const findToolCalls = async (message: UIMessage): Promise<Record<string, string>> => {
+    const ids = message.parts.flatMap((part) => {
+      const { toolCallId } = part as { toolCallId?: string };
+      return toolCallId == null ? [] : [toolCallId];
+    });
+    if (ids.length === 0) return {};
+
+    const { items } = await channel.history({ limit: historyLimit });
+    const toolCalls: Record<string, string> = {};
+    for (const id of ids) {
+      const call = items.find((m) => m.name?.startsWith(`tool:${id}:`));
+      if (call?.serial) toolCalls[id] = call.serial;
     }
+    return toolCalls;
+  };
 
-    // Abort and await any in-flight generation
-    if (inflight) {
-      inflight.controller.abort();
-      await inflight.done.catch(() => {});
+  /**
+   * Publish the tool results `updated` gained over `original` as updates to
+   * their tool calls, as the agent does for tools it runs itself, so every
+   * client sees them.
+   */
+  const publishToolResults = async (
+    promptId: string | undefined,
+    original: UIMessage,
+    updated: UIMessage,
+    toolCalls: Record<string, string>,
+  ) => {
+    const known = new Set(collectToolResults(original).map((r) => r.toolCallId));
+    const results = collectToolResults(updated).filter((r) => !known.has(r.toolCallId));
+
+    for (const result of results) {
+      const serial = toolCalls[result.toolCallId];
+      if (!serial) {
+        logger.warn(`No tool call ${result.toolCallId} in history to publish its result to`);
+        continue;
+      }
+      const update: Ably.Message = {
+        serial,
+        ...('errorText' in result
+          ? {
+              name: `tool-error:${result.toolCallId}`,
+              data: JSON.stringify({ errorText: result.errorText }),
+            }
+          : {
+              name: `tool-output:${result.toolCallId}`,
+              data: JSON.stringify({ output: result.output }),
+            }),
+        extras: {
+          headers: {
+            role: 'assistant',
+            [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION),
+            ...(promptId ? { promptId } : {}),
+          },
+        },
+      };
+      await channel.updateMessage(encryption ? await encryptMessage(update, encryption) : update);
     }
+  };
+
+  /** Publish a terminal outside of a generation. */
+  const publishTerminal = async (
+    name: 'error' | 'abort',
+    promptId: string | undefined,
+    data: object,
+    id?: string,
+  ) => {
+    const terminal: Ably.Message = {
+      ...(id ? { id } : {}),
+      name,
+      data: JSON.stringify(data),
+      extras: {
+        headers: {
+          role: 'assistant',
+          [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION),
+          ...(promptId ? { promptId } : {}),
+        },
+      },
+    };
+    await channel.publish(encryption ? await encryptMessage(terminal, encryption) : terminal);
+  };
 
+  /** Publish an `error` terminal outside of a generation. */
+  const publishError = (promptId: string | undefined, errorText: string, id?: string) =>
+    publishTerminal('error', promptId, { errorText }, id);
+
+  /** Answer a prompt from a client on an unsupported protocol version with an error terminal. */
+  const rejectUnsupportedVersion = async (message: Ably.InboundMessage, version: number) => {
     const promptId = message.extras?.headers?.promptId as string | undefined;
-    const abortController = new AbortController();
+    await publishError(
+      promptId,
+      `Unsupported protocol version ${version}; this agent supports up to ${PROTOCOL_VERSION}. ` +
+        'Upgrade @ably/ai-sdk-transport on the client.',
+    );
+  };
 
-    const publishPromise = (async () => {
-      const stream = await handler({
-        messages: [...messages],
-        trigger: 'regenerate-message',
-        abortSignal: abortController.signal,
-      });
+  /**
+   * Close the generations a previous worker checkpointed but never terminated.
+   * Prompts whose terminal is already in `history` only need their checkpoint removed.
+   */
+  const terminateOrphanedGenerations = async (
+    store: CheckpointStore,
+    history: Ably.InboundMessage[],
+  ) => {
+    const terminated = new Set(
+      history
+        .filter((m) => TERMINAL_NAMES.has(m.name ?? ''))
+        .map((m) => m.extras?.headers?.promptId as string | undefined),
+    );
+    for (const checkpoint of await store.list(channel.name)) {
+      if (!terminated.has(checkpoint.promptId)) {
+        logger.warn(`Terminating generation ${checkpoint.promptId} left open by a previous worker`);
+        await publishError(
+          checkpoint.promptId,
+          'The agent restarted before this response finished.',
+          // Same id a resumed generation would give its terminal, so only one is kept
+          `${checkpoint.promptId}:${checkpoint.position + 1}:error`,
+        );
+      }
+      await store.delete(channel.name, checkpoint.promptId);
+    }
+  };
 
-      const chunks = await publishToAbly({
-        channel,
-        stream,
-        abortSignal: abortController.signal,
-        promptId,
-        logger,
-      });
+  const handleFeedback = async (annotation: Ably.Annotation) => {
+    // Ratings are only ever replaced, never removed
+    if (annotation.action !== 'annotation.create') return;
+    const rating = annotation.name;
+    if (rating !== 'up' && rating !== 'down') {
+      logger.warn(`Ignoring feedback with unknown rating "${rating}"`);
+      return;
+    }
+    const { data } = await decodeMessage(
+      { data: annotation.data, extras: annotation.extras } as Ably.InboundMessage,
+      { encryption },
+    );
+    const { messageId, comment } = parseJsonData(data);
+    await onFeedback!({
+      messageId: messageId as string,
+      rating,
+      ...(typeof comment === 'string' ? { comment } : {}),
+      ...(annotation.clientId != null ? { clientId: annotation.clientId } : {}),
+      messageSerial: annotation.messageSerial,
+    });
+  };
 
-      const assistantMessages = await accumulateMessages(chunks);
-      messages.push(...assistantMessages.filter((m) => m.parts.length > 0));
-    })();
+  const feedbackListener = (annotation: Ably.Annotation) => {
+    handleFeedback(annotation).catch((err) => {
+      logger.error('Error handling feedback:', err);
+    });
+  };
 
-    inflight = { controller: abortController, done: publishPromise };
+  const handleAbort = (message: Ably.InboundMessage) => {
+    const promptId = message.extras?.headers?.promptId;
+    const queued = promptId != null ? waiting.get(promptId) : undefined;
+    if (queued) {
+      // Drop a prompt still waiting its turn, leaving the in-flight generation be
+      logger.debug(`Dropping prompt ${promptId}, aborted before it started`);
+      waiting.delete(promptId);
+      queued.abort();
+      publishTerminal('abort', promptId, {}).catch((err) => {
+        logger.error('Error publishing abort:', err);
+      });
+      return;
+    }
+    // Only abort the prompt being cancelled, which may not be the in-flight one
+    if (promptId != null && inflight?.promptId !== promptId) return;
+    logger.debug('Abort signal received from client');
+    inflight?.controller.abort();
+  };
+
+  /**
+   * Claim a prompt for this agent. Resolves `true` if this agent's claim is
+   * the first on the channel. Must be called as the prompt is received, so
+   * no claim for it can arrive before the waiter is in place.
+   */
+  const claimPrompt = async (message: Ably.InboundMessage): Promise<boolean> => {
+    const promptId = message.extras?.headers?.promptId as string | undefined;
+    if (!agent || promptId == null) return true;
 
+    const winner = new Promise<string | undefined>((resolve) => {
+      claimWaiters.set(promptId, resolve);
+    });
     try {
-      await publishPromise;
+      await channel.publish({
+        // Ably drops a repeated id, so a prompt is usually claimed only once
+        id: `${promptId}:claim`,
+        name: CLAIM_NAME,
+        extras: {
+          headers: {
+            role: 'assistant',
+            promptId,
+            [AGENT_HEADER]: agent.name,
+            [PROTOCOL_VERSION_HEADER]: String(PROTOCOL_VERSION),
+          },
+        },
+      });
     } catch (err) {
-      // Roll back to pre-regenerate state
-      messages.length = 0;
-      messages.push(...snapshot);
+      claimWaiters.delete(promptId);
       throw err;
-    } finally {
-      if (inflight?.done === publishPromise) {
-        inflight = null;
-      }
     }
+
+    const claimedBy = await winner;
+    if (claimedBy !== agent.name) {
+      logger.debug(`Prompt ${promptId} was claimed by ${claimedBy ?? 'another agent'}`);
+      return false;
+    }
+    return true;
   };
 
-  const handleAbort = () => {
-    logger.debug('Abort signal received from client');
-    inflight?.controller.abort();
+  /** Answer a prompt once this agent has claimed it. */
+  const respond = (
+    message: Ably.InboundMessage,
+    handle: (message: Ably.InboundMessage) => Promise<void>,
+  ) => {
+    claimPrompt(message)
+      .then((claimed) => {
+        if (claimed) return handle(message);
+        missed.add(message.extras?.headers?.promptId);
+      })
+      .catch((err) => {
+        logger.error(`Error handling ${message.name}:`, err);
+      });
   };
 
-  // Subscribe to client events — filter by role header to skip our own echoes.
-  await channel.subscribe((message: Ably.InboundMessage) => {
-    // Only process client-published messages (role: "user")
-    const role = message.extras?.headers?.role;
-    if (role !== 'user') return;
-    logger.debug('Conversation state:', messages.length, 'messages');
-    logger.debug('Prompt received:', message.name, message.extras?.headers?.promptId);
+  /** Answer a prompt, or abort one, received while leading. */
+  const dispatch = (message: Ably.InboundMessage) => {
+    const version = getProtocolVersion(message);
+    if (message.name !== 'user-abort' && !isSupportedProtocolVersion(version)) {
+      logger.warn(`Rejecting ${message.name} from client on protocol version ${version}`);
+      rejectUnsupportedVersion(message, version).catch((err) => {
+        logger.error('Error rejecting unsupported protocol version:', err);
+      });
+      return;
+    }
 
     switch (message.name) {
       case 'chat-message':
-        handleChatMessage(message).catch((err) => {
-          logger.error('Error handling chat-message:', err);
-        });
+        respond(message, handleChatMessage);
         break;
       case 'regenerate':
-        handleRegenerate(message).catch((err) => {
-          logger.error('Error handling regenerate:', err);
-        });
+        respond(message, handleRegenerate);
+        break;
+      case 'tool-approval-response':
+      case 'tool-result':
+        respond(message, handleToolResponse);
         break;
       case 'user-abort':
-        handleAbort();
+        handleAbort(message);
         break;
     }
+  };
+
+  // Subscribe to client events — filter by role header to skip our own echoes.
+  await channel.subscribe((message: Ably.InboundMessage) => {
+    // A response, claim or abort for the unanswered prompt settles it
+    const promptId = message.extras?.headers?.promptId;
+    if (
+      unanswered &&
+      promptId != null &&
+      promptId === unanswered.extras?.headers?.promptId &&
+      !PROMPT_NAMES.has(message.name ?? '')
+    ) {
+      unanswered = undefined;
+    }
+
+    const claim = readClaim(message);
+    if (claim) {
+      const resolve = claimWaiters.get(claim.promptId);
+      claimWaiters.delete(claim.promptId);
+      resolve?.(claim.agent);
+      return;
+    }
+
+    // Only process client-published messages (role: "user")
+    const role = message.extras?.headers?.role;
+    if (role !== 'user') return;
+    logger.debug('Prompt received:', message.name, message.extras?.headers?.promptId);
+
+    if (agent && PROMPT_NAMES.has(message.name ?? '') && !isAddressedTo(message, agent)) {
+      logger.debug(`Ignoring ${message.name} addressed to another agent`);
+      if (promptId != null) missed.add(promptId);
+      return;
+    }
+
+    if (!leading) {
+      if (PROMPT_NAMES.has(message.name ?? '')) unanswered = message;
+      return;
+    }
+    dispatch(message);
   });
 
+  if (onFeedback) {
+    await channel.annotations.subscribe(FEEDBACK_ANNOTATION_TYPE, feedbackListener);
+  }
+
+  /** Channel history, oldest first; up to the attach point unless `untilAttach` is false. */
+  const loadHistory = async (untilAttach = true): Promise<Ably.InboundMessage[]> => {
+    const result = await channel.history({ untilAttach, limit: historyLimit });
+    const items = result?.items ?? [];
+    // A message that fails to decode is dropped rather than failing the whole load
+    const dropUndecodable = (m: Ably.InboundMessage) => (err: unknown) => {
+      logger.warn('Failed to decode history message:', m.name, err);
+      return null;
+    };
+    const decoded = (
+      await Promise.all(
+        [...items].reverse().map((m) => decodeMessage(m, { encryption }).catch(dropUndecodable(m))),
+      )
+    ).filter((m) => m !== null);
+    // Payloads compressed before they were split are decompressed once reassembled
+    const fragments = new Map<string, string[]>();
+    for (const m of decoded) {
+      if (m.name === FRAGMENT_NAME) collectFragment(m, fragments);
+    }
+    const reassembled = await Promise.all(
+      decoded.map((m) => decompressFragments(m, fragments).catch(dropUndecodable(m))),
+    );
+    return reassembled.filter((m) => m !== null);
+  };
+
+  /** The conversation `initialMessages` and `history` make up. */
+  const seedFrom = (history: Ably.InboundMessage[]): UIMessage[] => {
+    const seeded = reconstructMessages(history);
+    const existingIds = new Set(initialMessages.map((m) => m.id));
+    return [...initialMessages, ...seeded.filter((m) => !existingIds.has(m.id))];
+  };
+
+  /** Become the leader replica, picking up where the previous one left off. */
+  const takeOver = async () => {
+    logger.info(`Replica ${highAvailability!.replicaId} is taking over ${channel.name}`);
+    // Everything published so far, including what arrived since attaching
+    const history = await loadHistory(false);
+    if (!sharedConversationStore) {
+      // The unanswered prompt is left out, as answering it adds it back
+      const skipped = unanswered?.serial;
+      await conversationStore.replace(
+        channel.name,
+        seedFrom(history.filter((m) => skipped == null || m.serial !== skipped)),
+      );
+    }
+    if (checkpoints) await terminateOrphanedGenerations(checkpoints, history);
+
+    leading = true;
+    const pending = unanswered;
+    unanswered = undefined;
+    if (pending) dispatch(pending);
+  };
+
+  /** Lead if this replica entered presence before every other replica still present. */
+  const elect = () => {
+    election = election
+      .then(async () => {
+        if (stopped) return;
+        const members = await channel.presence.get();
+        const [first] = members
+          .filter((m) => m.clientId === presenceClientId && m.data?.replicaId != null)
+          .sort(
+            (a, b) =>
+              a.timestamp - b.timestamp ||
+              String(a.data.replicaId).localeCompare(String(b.data.replicaId)),
+          );
+        const lead = first?.data.replicaId === highAvailability!.replicaId;
+        if (lead && !leading) {
+          await takeOver();
+        } else if (!lead && leading) {
+          logger.info(`Replica ${highAvailability!.replicaId} is following on ${channel.name}`);
+          leading = false;
+        }
+      })
+      .catch((err) => {
+        logger.error('Error electing the leader replica:', err);
+      });
+  };
+
   // Channel is now attached — seed conversation from history before unblocking
   // message handling. This prevents processing messages with incomplete state.
+  let chronological: Ably.InboundMessage[] = [];
   try {
-    const result = await channel.history({ untilAttach: true, limit: historyLimit });
-    const items = result?.items;
-    if (items && items.length > 0) {
-      const chronological = [...items].reverse();
-      const seeded = reconstructMessages(chronological);
-      const existingIds = new Set(messages.map((m) => m.id));
-      messages.push(...seeded.filter((m) => !existingIds.has(m.id)));
-    }
+    chronological = await loadHistory();
   } catch (err) {
     logger.warn('Failed to load channel history for seeding:', err);
-  } finally {
-    resolveReady!();
   }
 
+  // A stored conversation is kept as is — it may reach further back than history
+  try {
+    if ((await conversationStore.load(channel.name)) === undefined) {
+      await conversationStore.replace(channel.name, seedFrom(chronological));
+    }
+  } catch (err) {
+    logger.warn('Failed to seed conversation store:', err);
+  }
+
+  // Close generations a crashed worker left open before handling new prompts.
+  // A replica only does once it leads, as the leader's generations are open.
+  if (checkpoints && leading) {
+    try {
+      await terminateOrphanedGenerations(checkpoints, chronological);
+    } catch (err) {
+      logger.warn('Failed to terminate orphaned generations:', err);
+    }
+  }
+  resolveReady!();
+
   // Enter presence if configured (channel is attached after subscribe resolves)
-  const presenceClientId = presence?.clientId ?? 'agent';
-  const presenceData = presence ? { type: 'agent', ...presence.data } : undefined;
-  if (presence) {
+  const presenceData =
+    presence || highAvailability
+      ? {
+          type: 'agent',
+          protocolVersion: PROTOCOL_VERSION,
+          ...(agent ? { name: agent.name, capabilities: agent.capabilities ?? [] } : {}),
+          ...(highAvailability ? { replicaId: highAvailability.replicaId } : {}),
+          ...presence?.data,
+        }
+      : undefined;
+  if (presenceData) {
     await channel.presence.enterClient(presenceClientId, presenceData);
   }
+  if (highAvailability) {
+    await channel.presence.subscribe(['enter', 'leave', 'update'], elect);
+    elect();
+    await election;
+  }
 
   // Return async cleanup function that waits for in-flight generation to finish
   return async () => {
+    stopped = true;
     channel.unsubscribe();
-    if (presence) {
+    // Prompts still awaiting their claim are left to the other agents
+    for (const resolve of claimWaiters.values()) resolve(undefined);
+    claimWaiters.clear();
+    if (onFeedback) {
+      channel.annotations.unsubscribe(FEEDBACK_ANNOTATION_TYPE, feedbackListener);
+    }
+    if (highAvailability) {
+      channel.presence.unsubscribe(['enter', 'leave', 'update'], elect);
+    }
+    if (presenceData) {
       channel.presence.leaveClient(presenceClientId, presenceData).catch(() => {});
     }
     if (inflight) {
@@ -247,7 +920,38 @@ export async function subscribeToChannel(
   };
 }
 
-async function accumulateMessages(chunks: UIMessageChunk[]): Promise<UIMessage[]> {
+/** Whether a prompt's addressing headers admit `agent`. */
+function isAddressedTo(
+  message: Ably.InboundMessage,
+  agent: NonNullable<SubscribeToChannelOptions['agent']>,
+): boolean {
+  const headers = message.extras?.headers;
+  const name = headers?.[AGENT_HEADER];
+  const capability = headers?.[CAPABILITY_HEADER];
+  if (name != null && name !== agent.name) return false;
+  if (capability != null && !agent.capabilities?.includes(capability)) return false;
+  return true;
+}
+
+/** Read the request details a client published with a prompt. */
+function promptRequest(message: Ably.InboundMessage, data: Record<string, unknown>): PromptRequest {
+  const { chatId, messageId, body, headers, metadata } = data;
+  const promptId = message.extras?.headers?.promptId;
+  return {
+    ...(typeof chatId === 'string' ? { chatId } : {}),
+    ...(typeof messageId === 'string' ? { messageId } : {}),
+    ...(typeof promptId === 'string' ? { promptId } : {}),
+    ...(message.clientId != null ? { clientId: message.clientId } : {}),
+    ...(body != null ? { body: body as object } : {}),
+    ...(headers != null ? { headers: headers as Record<string, string> } : {}),
+    ...(metadata !== undefined ? { metadata } : {}),
+  };
+}
+
+async function accumulateMessages(
+  chunks: UIMessageChunk[],
+  continues?: UIMessage,
+): Promise<UIMessage[]> {
   const stream = new ReadableStream<UIMessageChunk>({
     start(controller) {
       for (const chunk of chunks) controller.enqueue(chunk);
@@ -256,7 +960,8 @@ async function accumulateMessages(chunks: UIMessageChunk[]): Promise<UIMessage[]
   });
 
   const byId = new Map<string, UIMessage>();
-  for await (const msg of readUIMessageStream({ stream })) {
+  const message = continues && structuredClone(continues);
+  for await (const msg of readUIMessageStream({ message, stream })) {
     byId.set(msg.id, msg);
   }
 
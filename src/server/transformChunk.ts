@@ -0,0 +1,44 @@
+import type { UIMessageChunk } from 'ai';
+
+/** What a {@link ChunkTransform} may return: a replacement, several chunks, or nothing to drop it. */
+export type ChunkTransformResult = UIMessageChunk | UIMessageChunk[] | null | undefined;
+
+/**
+ * Hook run on each chunk before it is published — e.g. to redact PII, strip
+ * secrets from tool inputs or remove provider metadata.
+ *
+ * Transforms must keep part lifecycles consistent: dropping a `text-start`
+ * means also dropping its deltas and `text-end`, and split chunks must form
+ * valid sequences.
+ */
+export type ChunkTransform = (
+  chunk: UIMessageChunk,
+) => ChunkTransformResult | Promise<ChunkTransformResult>;
+
+/**
+ * Pipe `stream` through one transform, or a chain of them. Each transform in a
+ * chain receives every chunk produced by the one before it.
+ */
+export function applyChunkTransforms(
+  stream: ReadableStream<UIMessageChunk>,
+  transforms: ChunkTransform | ChunkTransform[],
+): ReadableStream<UIMessageChunk> {
+  const chain = Array.isArray(transforms) ? transforms : [transforms];
+  return stream.pipeThrough(
+    new TransformStream<UIMessageChunk, UIMessageChunk>({
+      async transform(chunk, controller) {
+        let current = [chunk];
+        for (const transform of chain) {
+          const next: UIMessageChunk[] = [];
+          for (const c of current) {
+            const result = await transform(c);
+            if (Array.isArray(result)) next.push(...result);
+            else if (result != null) next.push(result);
+          }
+          current = next;
+        }
+        for (const c of current) controller.enqueue(c);
+      },
+    }),
+  );
+}
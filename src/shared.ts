@@ -1,5 +1,8 @@
 import type { InboundMessage } from 'ably';
 import type { UIMessage } from 'ai';
+import { decodeWireMessage } from './protocol';
+import { decompressMessage, isCompressed } from './compression';
+import type { CompressionCodec } from './compression';
 
 export function parseData(data: unknown): string {
   if (typeof data === 'string') return data;
@@ -16,8 +19,270 @@ export function parseJsonData(data: unknown): Record<string, unknown> {
 /** Terminal message names that signal the end of a stream. */
 export const TERMINAL_NAMES = new Set(['finish', 'error', 'abort']);
 
+/** Name of the messages that carry the pieces of an oversized payload. */
+export const FRAGMENT_NAME = 'fragment';
+
+/**
+ * Name of the message an agent publishes to claim a prompt when several
+ * agents serve a channel. The first claim for a prompt wins.
+ */
+export const CLAIM_NAME = 'claim';
+
+/** Header naming an agent: the one a prompt is addressed to, or the one a claim is from. */
+export const AGENT_HEADER = 'agent';
+
+/** Header naming the capability a prompt needs its agent to have. */
+export const CAPABILITY_HEADER = 'capability';
+
+/** Which agents a prompt is for. Agents without a name answer every prompt. */
+export interface AgentTarget {
+  /** Name of the agent that should answer. */
+  agent?: string;
+  /** Capability the answering agent must have. */
+  capability?: string;
+}
+
+/** The agent that claimed a prompt, carried by a `claim` message. */
+export interface AgentClaim {
+  /** Name of the claiming agent. */
+  agent: string;
+  promptId: string;
+}
+
+/** The claim `message` carries, if it is a well-formed `claim` message. */
+export function readClaim(message: InboundMessage): AgentClaim | undefined {
+  if (message.name !== CLAIM_NAME) return undefined;
+  const headers = message.extras?.headers;
+  const agent = headers?.[AGENT_HEADER];
+  const promptId = headers?.promptId;
+  if (typeof agent !== 'string' || typeof promptId !== 'string') return undefined;
+  return { agent, promptId };
+}
+
+/** Type of the part that stands in for the content of a retracted response. */
+export const TOMBSTONE_PART_TYPE = 'data-tombstone';
+
+/** Data of a `data-tombstone` part. */
+export interface Tombstone {
+  /** Reason given when the response was retracted, if any. */
+  reason?: string;
+}
+
+/** Build the tombstone part for a deleted message, from its delete operation's metadata. */
+export function tombstonePart(message: InboundMessage) {
+  const reason = message.version?.metadata?.reason;
+  return {
+    type: TOMBSTONE_PART_TYPE,
+    id: 'tombstone',
+    data: (reason != null ? { reason } : {}) as Tombstone,
+  } as const;
+}
+
+/**
+ * Annotation type for response feedback. With `unique.v1` aggregation each
+ * client counts toward one rating per response, so re-rating replaces it.
+ */
+export const FEEDBACK_ANNOTATION_TYPE = 'feedback:unique.v1';
+
+export type FeedbackRating = 'up' | 'down';
+
+/** Aggregated feedback on a response, in its `metadata.feedback` when loaded from history. */
+export interface MessageFeedback {
+  up: number;
+  down: number;
+}
+
+/** A client's rating of a response, as passed to `subscribeToChannel`'s `onFeedback`. */
+export interface Feedback {
+  /** Id of the rated assistant message. */
+  messageId: string;
+  rating: FeedbackRating;
+  comment?: string;
+  /** The rating client's clientId, if it has one. */
+  clientId?: string;
+  /** Serial of the channel message the rating is annotated on. */
+  messageSerial: string;
+}
+
+/** The feedback summary Ably aggregated on a message, if it has received any. */
+function feedbackSummary(message: InboundMessage): MessageFeedback | undefined {
+  const summary = message.annotations?.summary?.[FEEDBACK_ANNOTATION_TYPE] as
+    | Record<string, { total: number }>
+    | undefined;
+  if (!summary) return undefined;
+  return { up: summary.up?.total ?? 0, down: summary.down?.total ?? 0 };
+}
+
+/**
+ * Find the serial of the message feedback on the response `messageId` is
+ * annotated on: its `start` message, or the first text message when the
+ * response has no `start`. `messages` must be decoded.
+ */
+export function findResponseSerial(
+  messages: InboundMessage[],
+  messageId: string,
+): string | undefined {
+  const anchor =
+    messages.find((m) => m.name === 'start' && parseJsonData(m.data).messageId === messageId) ??
+    messages.find((m) => m.name === `text:${messageId}`);
+  return anchor?.serial;
+}
+
+/** A decision on a tool approval request, sent in a `tool-approval-response` message. */
+export interface ToolApprovalDecision {
+  approvalId: string;
+  approved: boolean;
+  reason?: string;
+}
+
+/** The approval decisions on `message`'s tool parts that have not been acted on yet. */
+export function collectToolApprovals(message: UIMessage): ToolApprovalDecision[] {
+  return message.parts.flatMap((part) => {
+    const p = part as { state?: string; approval?: ToolApprovalDecision & { id: string } };
+    if (p.state !== 'approval-responded' || !p.approval) return [];
+    const { id, approved, reason } = p.approval;
+    return [{ approvalId: id, approved, ...(reason != null ? { reason } : {}) }];
+  });
+}
+
+/** Return `message` with `approvals` applied to the tool parts awaiting them. */
+export function applyToolApprovals<T extends UIMessage>(
+  message: T,
+  approvals: ToolApprovalDecision[],
+): T {
+  const byId = new Map(approvals.map((a) => [a.approvalId, a]));
+  const parts = message.parts.map((part) => {
+    const p = part as { state?: string; approval?: { id: string } };
+    const decision = p.state === 'approval-requested' && p.approval && byId.get(p.approval.id);
+    if (!decision) return part;
+    return {
+      ...part,
+      state: 'approval-responded',
+      approval: {
+        id: decision.approvalId,
+        approved: decision.approved,
+        ...(decision.reason != null ? { reason: decision.reason } : {}),
+      },
+    } as typeof part;
+  });
+  return { ...message, parts };
+}
+
+/** The outcome of a tool the client executed, sent in a `tool-result` message. */
+export type ToolResult =
+  | { toolCallId: string; output: unknown }
+  | { toolCallId: string; errorText: string };
+
+/** The outputs and errors of `message`'s finished tool parts. */
+export function collectToolResults(message: UIMessage): ToolResult[] {
+  return message.parts.flatMap((part): ToolResult[] => {
+    const p = part as { toolCallId?: string; state?: string; output?: unknown; errorText?: string };
+    if (p.toolCallId == null) return [];
+    if (p.state === 'output-available') return [{ toolCallId: p.toolCallId, output: p.output }];
+    if (p.state === 'output-error') {
+      return [{ toolCallId: p.toolCallId, errorText: p.errorText ?? 'Unknown tool error' }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Return `message` with `results` applied to the tool parts still awaiting
+ * output. Parts that already have an output are left as they are.
+ */
+export function applyToolResults<T extends UIMessage>(message: T, results: ToolResult[]): T {
+  const byId = new Map(results.map((r) => [r.toolCallId, r]));
+  const parts = message.parts.map((part) => {
+    const p = part as { toolCallId?: string; state?: string };
+    const awaiting = p.state === 'input-available' || p.state === 'approval-responded';
+    const result = awaiting && p.toolCallId != null && byId.get(p.toolCallId);
+    if (!result) return part;
+    return (
+      'errorText' in result
+        ? { ...part, state: 'output-error', errorText: result.errorText }
+        : { ...part, state: 'output-available', output: result.output }
+    ) as typeof part;
+  });
+  return { ...message, parts };
+}
+
 /** Names to skip when reconstructing messages. */
-const SKIP_NAMES = new Set(['step-finish', 'user-abort']);
+const SKIP_NAMES = new Set(['step-finish', 'user-abort', FRAGMENT_NAME, CLAIM_NAME]);
+
+/** Store the piece carried by a `fragment` message, keyed by its `fragmentId` header. */
+export function collectFragment(message: InboundMessage, fragments: Map<string, string[]>): void {
+  const headers = message.extras?.headers;
+  const fragmentId = headers?.fragmentId as string | undefined;
+  const index = Number(headers?.fragmentIndex);
+  if (fragmentId == null || !Number.isInteger(index)) return;
+  let pieces = fragments.get(fragmentId);
+  if (!pieces) {
+    pieces = [];
+    fragments.set(fragmentId, pieces);
+  }
+  pieces[index] = parseData(message.data);
+}
+
+/**
+ * Whether every fragment of a message's payload has been collected. Messages
+ * without a `fragmentId` header have nothing to collect.
+ */
+export function hasAllFragments(
+  message: InboundMessage,
+  fragments: Map<string, string[]>,
+): boolean {
+  const headers = message.extras?.headers;
+  const fragmentId = headers?.fragmentId as string | undefined;
+  if (fragmentId == null || message.name === FRAGMENT_NAME) return true;
+
+  const count = Number(headers?.fragmentCount);
+  const pieces = fragments.get(fragmentId);
+  if (!pieces || !Number.isInteger(count)) return false;
+  for (let i = 0; i < count; i++) {
+    if (pieces[i] == null) return false;
+  }
+  return true;
+}
+
+/**
+ * Resolve a message whose payload was split into fragments.
+ *
+ * Messages without a `fragmentId` header are returned unchanged. Otherwise a
+ * copy is returned with the reassembled payload as its data, or `null` if any
+ * fragment has not been collected.
+ */
+export function reassembleFragments(
+  message: InboundMessage,
+  fragments: Map<string, string[]>,
+): InboundMessage | null {
+  const headers = message.extras?.headers;
+  const fragmentId = headers?.fragmentId as string | undefined;
+  if (fragmentId == null || message.name === FRAGMENT_NAME) return message;
+  if (!hasAllFragments(message, fragments)) return null;
+
+  const count = Number(headers?.fragmentCount);
+  const pieces = fragments.get(fragmentId)!;
+  fragments.delete(fragmentId);
+  return { ...message, data: pieces.slice(0, count).join('') };
+}
+
+/**
+ * Reassemble a carrier whose payload was compressed before it was split into
+ * fragments, and decompress it. The result has no fragment headers, so
+ * `reassembleFragments` passes it through. Any other message, or a carrier
+ * with a fragment still missing, is returned unchanged.
+ */
+export async function decompressFragments(
+  message: InboundMessage,
+  fragments: Map<string, string[]>,
+  codecs?: CompressionCodec[],
+): Promise<InboundMessage> {
+  if (message.extras?.headers?.fragmentCount == null || !isCompressed(message)) return message;
+  const reassembled = reassembleFragments(message, fragments);
+  if (!reassembled) return message;
+  const { fragmentId: _id, fragmentCount: _count, ...headers } = reassembled.extras.headers;
+  return decompressMessage({ ...reassembled, extras: { ...reassembled.extras, headers } }, codecs);
+}
 
 /**
  * Reconstruct UIMessage[] from a chronological list of Ably history messages.
@@ -25,21 +290,37 @@ const SKIP_NAMES = new Set(['step-finish', 'user-abort']);
  * Walks the messages oldest-first, grouping them into user/assistant UIMessage
  * objects. User messages are extracted from `chat-message` events. Assistant
  * content is accumulated from `text:`, `reasoning:`, `tool:`, `tool-output:`,
- * and `tool-error:` messages.
+ * and `tool-error:` messages, using each message's latest version, so
+ * rewritten text appears as rewritten. Deleted content is replaced by a single
+ * `data-tombstone` part per assistant message, and feedback aggregated on a
+ * response is set as its `metadata.feedback`. Throws if any message uses an
+ * unsupported protocol version.
  */
-export function reconstructMessages(chronological: InboundMessage[]): UIMessage[] {
+export function reconstructMessages(history: InboundMessage[]): UIMessage[] {
+  const chronological = history.map(decodeWireMessage);
   const messages: UIMessage[] = [];
   let currentAssistant: UIMessage | null = null;
   let pendingMessageId: string | null = null;
   let pendingMessageMetadata: unknown = null;
+  // Feedback is aggregated on the message that identifies the response
+  let pendingFeedback: MessageFeedback | undefined;
+  let currentFeedback: MessageFeedback | undefined;
 
   function finalizeAssistant() {
     if (currentAssistant && currentAssistant.parts.length > 0) {
+      if (currentFeedback) {
+        currentAssistant.metadata = {
+          ...(currentAssistant.metadata as any),
+          feedback: currentFeedback,
+        };
+      }
       messages.push(currentAssistant);
     }
     currentAssistant = null;
     pendingMessageId = null;
     pendingMessageMetadata = null;
+    pendingFeedback = undefined;
+    currentFeedback = undefined;
     assistantIdFromStart = false;
   }
 
@@ -54,14 +335,26 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
         parts: [],
         ...(pendingMessageMetadata != null ? { metadata: pendingMessageMetadata } : {}),
       };
+      currentFeedback = pendingFeedback;
       // Reset pending so they don't leak to a subsequent assistant
       pendingMessageId = null;
       pendingMessageMetadata = null;
+      pendingFeedback = undefined;
     }
     return currentAssistant;
   }
 
+  // Fragments are published after the message they complete when it is an
+  // update (tool output), so collect them all before walking the history.
+  const fragments = new Map<string, string[]>();
   for (const msg of chronological) {
+    if (msg.name === FRAGMENT_NAME) collectFragment(msg, fragments);
+  }
+
+  for (const raw of chronological) {
+    const msg = reassembleFragments(raw, fragments);
+    // Payload incomplete (e.g. fragments fell outside the history window) — skip it
+    if (!msg) continue;
     const name = msg.name ?? '';
     const data = parseData(msg.data);
 
@@ -80,6 +373,22 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
       continue;
     }
 
+    // ── Tool approvals and results: the continuation extends the message ─
+    if (name === 'tool-approval-response' || name === 'tool-result') {
+      finalizeAssistant();
+      const parsed = parseJsonData(msg.data);
+      const last = messages[messages.length - 1];
+      if (last?.role === 'assistant') {
+        messages.pop();
+        currentAssistant = applyToolResults(
+          applyToolApprovals(last, (parsed.approvals as ToolApprovalDecision[] | undefined) ?? []),
+          (parsed.results as ToolResult[] | undefined) ?? [],
+        );
+        assistantIdFromStart = true;
+      }
+      continue;
+    }
+
     // ── Regenerate: remove last assistant message ─
     if (name === 'regenerate') {
       finalizeAssistant();
@@ -96,6 +405,18 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
     // ── Skip control messages ─────────────────────
     if (SKIP_NAMES.has(name)) continue;
 
+    // ── Deleted content: a tombstone in place of the parts ─
+    if (msg.action === 'message.delete' && name !== 'start' && !TERMINAL_NAMES.has(name)) {
+      const assistant = ensureAssistant();
+      if (name.startsWith('text:') && assistant.parts.length === 0 && !assistantIdFromStart) {
+        assistant.id = name.slice(5);
+      }
+      if (!assistant.parts.some((p) => p.type === TOMBSTONE_PART_TYPE)) {
+        assistant.parts.push(tombstonePart(msg));
+      }
+      continue;
+    }
+
     // ── Terminal messages: finalize assistant ──────
     if (TERMINAL_NAMES.has(name)) {
       finalizeAssistant();
@@ -110,13 +431,14 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
       // (unless a start message already set a specific ID)
       if (assistant.parts.length === 0 && !assistantIdFromStart) {
         assistant.id = id;
+        currentFeedback = feedbackSummary(msg);
       }
       if (data.length > 0) {
         assistant.parts.push({ type: 'text', text: data, state: 'done' } as any);
       }
       // Mark content complete if version metadata has text-end
       const event = (msg as any).version?.metadata?.event;
-      if (event === 'text-end') {
+      if (event === 'text-end' || event === 'text-rewrite') {
         assistant.metadata = { ...(assistant.metadata as any), contentComplete: true };
       }
       continue;
@@ -129,7 +451,7 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
         assistant.parts.push({ type: 'reasoning', text: data, state: 'done' } as any);
       }
       const event = (msg as any).version?.metadata?.event;
-      if (event === 'reasoning-end') {
+      if (event === 'reasoning-end' || event === 'reasoning-rewrite') {
         assistant.metadata = { ...(assistant.metadata as any), contentComplete: true };
       }
       continue;
@@ -208,8 +530,8 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
       for (const part of assistant.parts) {
         const p = part as any;
         if (p.toolCallId === toolCallId) {
-          p.state = 'approval-required';
-          p.approvalId = parsed.approvalId;
+          p.state = 'approval-requested';
+          p.approval = { id: parsed.approvalId };
           break;
         }
       }
@@ -303,6 +625,7 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
       if (parsed.messageMetadata != null) {
         pendingMessageMetadata = parsed.messageMetadata;
       }
+      pendingFeedback = feedbackSummary(msg);
       continue;
     }
   }
@@ -312,3 +635,103 @@ export function reconstructMessages(chronological: InboundMessage[]): UIMessage[
 
   return messages;
 }
+
+/** Data of the `data-rewrite` part the transport emits when a streamed part is rewritten. */
+export interface PartRewrite {
+  type: 'text' | 'reasoning';
+  /** Position of the rewritten part among the message's parts of the same type. */
+  index: number;
+  text: string;
+}
+
+/**
+ * Apply the `data-rewrite` parts of a streamed message to the text and
+ * reasoning parts they replace, and drop them. Messages without rewrites are
+ * returned unchanged.
+ */
+export function applyRewrites<T extends UIMessage>(message: T): T {
+  const rewrites = message.parts.filter((p) => p.type === 'data-rewrite') as Array<{
+    data: PartRewrite;
+  }>;
+  if (rewrites.length === 0) return message;
+
+  const counts = { text: 0, reasoning: 0 };
+  const parts = message.parts
+    .filter((p) => p.type !== 'data-rewrite')
+    .map((part) => {
+      if (part.type !== 'text' && part.type !== 'reasoning') return part;
+      const index = counts[part.type]++;
+      const rewrite = rewrites.find((r) => r.data.type === part.type && r.data.index === index);
+      return rewrite ? { ...part, text: rewrite.data.text } : part;
+    });
+  return { ...message, parts };
+}
+
+/** A rewrite of a part no longer streaming, as reported by `AblyChatTransport.onRewrite`. */
+export interface Rewrite extends PartRewrite {
+  /** Prompt whose response the rewritten part belongs to. */
+  promptId: string;
+  /** Id of the assistant message holding the part, when its response carried one in `start`. */
+  messageId?: string;
+}
+
+/**
+ * Replace the text of the part a rewrite names in its assistant message.
+ * Returns `messages` unchanged if no message or part matches.
+ */
+export function applyRewrite<T extends UIMessage>(messages: T[], rewrite: Rewrite): T[] {
+  const index = messages.findIndex((m) => m.id === rewrite.messageId && m.role === 'assistant');
+  if (index === -1) return messages;
+
+  let count = 0;
+  let found = false;
+  const parts = messages[index].parts.map((part) => {
+    if (part.type !== rewrite.type || count++ !== rewrite.index) return part;
+    found = true;
+    return { ...part, text: rewrite.text };
+  });
+  if (!found) return messages;
+  const updated = [...messages];
+  updated[index] = { ...messages[index], parts };
+  return updated;
+}
+
+/** A response retracted once it was no longer streaming, as reported by `AblyChatTransport.onRetraction`. */
+export interface Retraction {
+  /** Prompt whose response was retracted. */
+  promptId: string;
+  /** Id of the retracted assistant message, when its response carried one in `start`. */
+  messageId?: string;
+  /** Reason given when the response was retracted, if any. */
+  reason?: string;
+}
+
+/**
+ * Add a `data-tombstone` part to the assistant message a retraction names, as
+ * the transport does for a response retracted while it streams. Returns
+ * `messages` unchanged if none matches.
+ */
+export function applyRetraction<T extends UIMessage>(messages: T[], retraction: Retraction): T[] {
+  const index = messages.findIndex((m) => m.id === retraction.messageId && m.role === 'assistant');
+  if (index === -1 || messages[index].parts.some((p) => p.type === TOMBSTONE_PART_TYPE)) {
+    return messages;
+  }
+  const tombstone = {
+    type: TOMBSTONE_PART_TYPE,
+    id: 'tombstone',
+    data: (retraction.reason != null ? { reason: retraction.reason } : {}) as Tombstone,
+  };
+  const updated = [...messages];
+  updated[index] = { ...messages[index], parts: [...messages[index].parts, tombstone] };
+  return updated;
+}
+
+/**
+ * Collapse a message that has a `data-tombstone` part — one whose response
+ * was retracted while it streamed — to just that part. Other messages are
+ * returned unchanged.
+ */
+export function applyTombstones<T extends UIMessage>(message: T): T {
+  const tombstone = message.parts.find((p) => p.type === TOMBSTONE_PART_TYPE);
+  return tombstone ? { ...message, parts: [tombstone] } : message;
+}
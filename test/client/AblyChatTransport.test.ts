@@ -3,7 +3,11 @@ import { AblyChatTransport } from '../../src/client/AblyChatTransport.js';
 import { createMockAbly, createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
 import { collectChunks } from '../helpers/streamHelpers.js';
 import { makeUserMessage } from '../helpers/messageBuilders.js';
+import { gzipCodec } from '../../src/compression.js';
+import { aesGcmEncryption, decryptMessage, encryptMessage } from '../../src/encryption.js';
+import { readUIMessageStream } from 'ai';
 import type { UIMessage } from 'ai';
+import { applyRetraction, applyRewrite, applyRewrites } from '../../src/shared.js';
 
 describe('AblyChatTransport', () => {
   let mockChannel: ReturnType<typeof createMockChannel>;
@@ -57,7 +61,7 @@ describe('AblyChatTransport', () => {
       const publishData = JSON.parse(chatMessageCall!.message.data);
       expect(publishData.message.id).toBe('msg-1');
       expect(chatMessageCall!.message.extras).toEqual({
-        headers: { role: 'user', promptId },
+        headers: { role: 'user', promptId, protocolVersion: '1' },
       });
 
       // Simulate a complete response with matching promptId
@@ -142,7 +146,7 @@ describe('AblyChatTransport', () => {
       const regenData = JSON.parse(regenCall!.message.data);
       expect(regenData.messageId).toBe('msg-to-regen');
       expect(regenCall!.message.extras).toEqual({
-        headers: { role: 'user', promptId },
+        headers: { role: 'user', promptId, protocolVersion: '1' },
       });
     });
 
@@ -183,6 +187,230 @@ describe('AblyChatTransport', () => {
       expect(publishData.message.parts[0].text).toBe('Second');
     });
 
+    it('publishes tool-approval-response when the last message carries approval decisions', async () => {
+      const messages: UIMessage[] = [
+        makeUserMessage('msg-1', 'Delete my files'),
+        {
+          id: 'msg-2',
+          role: 'assistant',
+          parts: [
+            {
+              type: 'tool-deleteFiles',
+              toolCallId: 'call-1',
+              state: 'approval-responded',
+              input: { path: '/tmp' },
+              approval: { id: 'approval-1', approved: false, reason: 'Not that one' },
+            } as any,
+          ],
+        },
+      ];
+
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: 'msg-2',
+        messages,
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('tool-approval-response');
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S1',
+        data: '{"finishReason":"stop"}',
+        extras: { headers: { role: 'assistant', promptId } },
+      });
+      await collectChunks(stream);
+
+      expect(mockChannel.publishCalls.map((c) => c.message.name)).not.toContain('chat-message');
+      const call = mockChannel.publishCalls.find(
+        (c) => c.message.name === 'tool-approval-response',
+      );
+      expect(JSON.parse(call!.message.data)).toEqual({
+        chatId: 'chat-123',
+        messageId: 'msg-2',
+        approvals: [{ approvalId: 'approval-1', approved: false, reason: 'Not that one' }],
+      });
+    });
+
+    it('locates a rewrite among all parts of the assistant message the response continues', async () => {
+      const continued: UIMessage = {
+        id: 'msg-2',
+        role: 'assistant',
+        parts: [
+          { type: 'text', text: 'Looking that up.', state: 'done' },
+          {
+            type: 'tool-lookup',
+            toolCallId: 'call-1',
+            state: 'approval-responded',
+            input: {},
+            approval: { id: 'approval-1', approved: true },
+          } as any,
+        ],
+      };
+
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: 'msg-2',
+        messages: [makeUserMessage('msg-1', 'Find my key'), continued],
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('tool-approval-response');
+      const extras = { headers: { role: 'assistant', promptId } };
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'text:t-1',
+        action: 'message.create',
+        serial: 'S1',
+        data: '',
+        extras,
+      });
+      mockChannel.simulateMessage({
+        name: 'text:t-1',
+        action: 'message.append',
+        serial: 'S1',
+        data: 'The key is sk-123',
+        extras,
+      });
+      mockChannel.simulateMessage({
+        name: 'text:t-1',
+        action: 'message.append',
+        serial: 'S1',
+        data: '',
+        extras,
+        version: { serial: 'v1', timestamp: 0, metadata: { event: 'text-end' } },
+      } as any);
+      mockChannel.simulateMessage({
+        name: 'text:t-1',
+        action: 'message.update',
+        serial: 'S1',
+        data: 'The key is [redacted]',
+        extras,
+        version: { serial: 'v2', timestamp: 0, metadata: { event: 'text-rewrite' } },
+      } as any);
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S2',
+        data: '{"finishReason":"stop"}',
+        extras,
+      });
+
+      let message = continued;
+      for await (const next of readUIMessageStream({ message: continued, stream })) {
+        message = next;
+      }
+
+      expect(
+        applyRewrites(message)
+          .parts.filter((p) => p.type === 'text')
+          .map((p) => p.text),
+      ).toEqual(['Looking that up.', 'The key is [redacted]']);
+    });
+
+    it('publishes tool-result with the outputs of client-side tools only', async () => {
+      // The agent ran call-1 itself
+      (mockChannel as any).history = () =>
+        Promise.resolve({
+          items: [
+            {
+              name: 'tool-output:call-1',
+              action: 'message.update',
+              serial: 'S2',
+              data: JSON.stringify({ output: 'sunny' }),
+              extras: { headers: { role: 'assistant' } },
+            },
+          ],
+        });
+      await transport.loadChatHistory();
+
+      const messages: UIMessage[] = [
+        makeUserMessage('msg-1', 'Weather here?'),
+        {
+          id: 'msg-2',
+          role: 'assistant',
+          parts: [
+            {
+              type: 'tool-getLocation',
+              toolCallId: 'call-0',
+              state: 'output-error',
+              input: {},
+              errorText: 'Permission denied',
+            } as any,
+            {
+              type: 'tool-getWeather',
+              toolCallId: 'call-1',
+              state: 'output-available',
+              input: {},
+              output: 'sunny',
+            } as any,
+          ],
+        },
+      ];
+
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages,
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('tool-result');
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S3',
+        data: '{"finishReason":"stop"}',
+        extras: { headers: { role: 'assistant', promptId } },
+      });
+      await collectChunks(stream);
+
+      const call = mockChannel.publishCalls.find((c) => c.message.name === 'tool-result');
+      expect(JSON.parse(call!.message.data)).toEqual({
+        chatId: 'chat-123',
+        messageId: 'msg-2',
+        results: [{ toolCallId: 'call-0', errorText: 'Permission denied' }],
+      });
+    });
+
+    it('publishes the chat id and request options with the prompt', async () => {
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+        body: { model: 'large', temperature: 0.2 },
+        headers: new Headers({ 'X-Feature': 'beta' }),
+        metadata: { source: 'sidebar' },
+      });
+      const promptId = getPublishedPromptId('chat-message');
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S1',
+        data: '{"finishReason":"stop"}',
+        extras: { headers: { role: 'assistant', promptId } },
+      });
+      await collectChunks(stream);
+
+      const call = mockChannel.publishCalls.find((c) => c.message.name === 'chat-message');
+      expect(JSON.parse(call!.message.data)).toMatchObject({
+        chatId: 'chat-123',
+        body: { model: 'large', temperature: 0.2 },
+        headers: { 'x-feature': 'beta' },
+        metadata: { source: 'sidebar' },
+      });
+    });
+
     it('filters out echo messages (chat-message, regenerate, user-abort)', async () => {
       const streamPromise = transport.sendMessages({
         trigger: 'submit-message',
@@ -292,7 +520,7 @@ describe('AblyChatTransport', () => {
       const abortCall = mockChannel.publishCalls.find((c) => c.message.name === 'user-abort');
       expect(abortCall).toBeDefined();
       expect(abortCall!.message.extras).toEqual({
-        headers: { role: 'user', promptId },
+        headers: { role: 'user', promptId, protocolVersion: '1' },
       });
 
       // Complete the stream to avoid hanging
@@ -943,4 +1171,584 @@ describe('AblyChatTransport', () => {
       expect(callback).not.toHaveBeenCalled();
     });
   });
+
+  describe('compression', () => {
+    it('decompresses compressed messages before routing them', async () => {
+      (transport as any)._hasActiveStream = true;
+      const stream = await transport.reconnectToStream({ chatId: 'chat-123' });
+
+      const data = { rows: 'row '.repeat(100) };
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'data-report',
+        action: 'message.create',
+        serial: 'S1',
+        data: await gzipCodec.compress(JSON.stringify({ data })),
+        extras: { headers: { compression: 'gzip' } },
+      });
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S2',
+        data: '{"finishReason":"stop"}',
+      });
+
+      const chunks = await collectChunks(stream!);
+      expect(chunks.find((c) => c.type === 'data-report')).toEqual({ type: 'data-report', data });
+    });
+
+    it('decompresses a payload compressed before it was split, once reassembled', async () => {
+      (transport as any)._hasActiveStream = true;
+      const stream = await transport.reconnectToStream({ chatId: 'chat-123' });
+
+      const data = { rows: 'row '.repeat(100) };
+      const compressed = await gzipCodec.compress(JSON.stringify({ data }));
+      const half = Math.ceil(compressed.length / 2);
+      await new Promise((r) => setTimeout(r, 10));
+      for (const [index, piece] of [compressed.slice(0, half), compressed.slice(half)].entries()) {
+        mockChannel.simulateMessage({
+          name: 'fragment',
+          action: 'message.create',
+          serial: `F${index}`,
+          data: piece,
+          extras: { headers: { fragmentId: 'frag-1', fragmentIndex: String(index) } },
+        });
+      }
+      mockChannel.simulateMessage({
+        name: 'data-report',
+        action: 'message.create',
+        serial: 'S1',
+        data: '',
+        extras: { headers: { compression: 'gzip', fragmentId: 'frag-1', fragmentCount: '2' } },
+      });
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S2',
+        data: '{"finishReason":"stop"}',
+      });
+
+      const chunks = await collectChunks(stream!);
+      expect(chunks.find((c) => c.type === 'data-report')).toEqual({ type: 'data-report', data });
+    });
+
+    it('skips a carrier whose fragments were published before reconnecting', async () => {
+      (transport as any)._hasActiveStream = true;
+      const stream = await transport.reconnectToStream({ chatId: 'chat-123' });
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'data-report',
+        action: 'message.create',
+        serial: 'S1',
+        data: '',
+        extras: { headers: { fragmentId: 'frag-1', fragmentCount: '2' } },
+      });
+      mockChannel.simulateMessage({
+        name: 'text:S2',
+        action: 'message.create',
+        serial: 'S2',
+        data: 'Done',
+      });
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S3',
+        data: '{"finishReason":"stop"}',
+      });
+
+      const chunks = await collectChunks(stream!);
+      expect(chunks.map((c) => c.type)).not.toContain('error');
+      expect(chunks.map((c) => c.type)).not.toContain('data-report');
+      expect(chunks.at(-1)).toMatchObject({ type: 'finish' });
+    });
+
+    it('emits an error chunk for an unsupported codec', async () => {
+      (transport as any)._hasActiveStream = true;
+      const stream = await transport.reconnectToStream({ chatId: 'chat-123' });
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'data-report',
+        action: 'message.create',
+        serial: 'S1',
+        data: 'opaque',
+        extras: { headers: { compression: 'zstd' } },
+      });
+
+      const chunks = await collectChunks(stream!);
+      expect(chunks).toEqual([
+        { type: 'error', errorText: 'Unsupported compression codec "zstd"' },
+      ]);
+    });
+  });
+
+  describe('encryption', () => {
+    const encryption = aesGcmEncryption(btoa('0123456789abcdef0123456789abcdef'));
+
+    it('encrypts the trigger message and decrypts the response stream', async () => {
+      const encrypted = new AblyChatTransport({ channel: mockChannel as any, encryption });
+      const stream = await encrypted.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+
+      const trigger = mockChannel.publishCalls.find((c) => c.message.name === 'chat-message')!;
+      expect(trigger.message.data).not.toContain('Hello');
+      const { data } = await decryptMessage(trigger.message, encryption);
+      expect(JSON.parse(data).message.id).toBe('msg-1');
+
+      const promptId = trigger.message.extras.headers.promptId;
+      const headers = { role: 'assistant', promptId };
+      const sealed = (message: Record<string, any>) =>
+        encryptMessage({ ...message, extras: { headers } }, encryption);
+      await new Promise((r) => setTimeout(r, 10));
+      for (const message of [
+        { name: 'text:t0', action: 'message.create', serial: 'S1', data: '' },
+        {
+          name: 'text:t0',
+          action: 'message.append',
+          serial: 'S1',
+          data: 'Secret reply',
+          version: { serial: 'v1', timestamp: Date.now(), metadata: { event: 'text-delta' } },
+        },
+        {
+          name: 'text:t0',
+          action: 'message.append',
+          serial: 'S1',
+          data: '',
+          version: { serial: 'v2', timestamp: Date.now(), metadata: { event: 'text-end' } },
+        },
+        { name: 'finish', action: 'message.create', serial: 'S2', data: '{"finishReason":"stop"}' },
+      ]) {
+        mockChannel.simulateMessage(await sealed(message));
+      }
+
+      const chunks = await collectChunks(stream);
+      expect(chunks.find((c) => c.type === 'text-delta')).toMatchObject({ delta: 'Secret reply' });
+      expect(chunks.at(-1)).toMatchObject({ type: 'finish', finishReason: 'stop' });
+    });
+
+    it('emits an error chunk for an encrypted message when no encryption is configured', async () => {
+      (transport as any)._hasActiveStream = true;
+      const stream = await transport.reconnectToStream({ chatId: 'chat-123' });
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage(
+        await encryptMessage(
+          { name: 'text:t0', action: 'message.create', serial: 'S1', data: 'x' } as any,
+          encryption,
+        ),
+      );
+
+      const chunks = await collectChunks(stream!);
+      expect(chunks).toEqual([
+        {
+          type: 'error',
+          errorText: 'Received an encrypted message but no encryption is configured',
+        },
+      ]);
+    });
+  });
+
+  describe('sendFeedback', () => {
+    const assistant = { headers: { role: 'assistant', protocolVersion: '1', promptId: 'p1' } };
+
+    it('annotates the start message of a response loaded from history', async () => {
+      await mockChannel.publish({
+        name: 'start',
+        data: JSON.stringify({ messageId: 'a1' }),
+        extras: assistant,
+      });
+      const startSerial = mockChannel.publishedMessages[0].serial;
+      await mockChannel.publish({ name: 'text:t0', data: 'Hi', extras: assistant });
+      await transport.loadChatHistory();
+      const historyCalls = vi.spyOn(mockChannel, 'history');
+
+      await transport.sendFeedback('a1', { rating: 'up', comment: 'Helpful' });
+
+      expect(historyCalls).not.toHaveBeenCalled();
+      expect(mockChannel.annotations.publishCalls).toEqual([
+        {
+          messageSerial: startSerial,
+          annotation: {
+            type: 'feedback:unique.v1',
+            name: 'up',
+            data: JSON.stringify({ messageId: 'a1', comment: 'Helpful' }),
+            extras: { headers: { role: 'user', protocolVersion: '1' } },
+          },
+        },
+      ]);
+    });
+
+    it('looks up a response without a start message by its text id', async () => {
+      await mockChannel.publish({ name: 'text:t0', data: 'Hi', extras: assistant });
+
+      await transport.sendFeedback('t0', { rating: 'down' });
+
+      expect(mockChannel.annotations.publishCalls[0].messageSerial).toBe(
+        mockChannel.publishedMessages[0].serial,
+      );
+      expect(mockChannel.annotations.publishCalls[0].annotation.data).toBe(
+        JSON.stringify({ messageId: 't0' }),
+      );
+    });
+
+    it('encrypts the comment when encryption is configured', async () => {
+      const encryption = aesGcmEncryption(btoa('k'.repeat(32)));
+      transport = new AblyChatTransport({ channel: mockChannel, encryption });
+      await mockChannel.publish(
+        await encryptMessage(
+          { name: 'start', data: JSON.stringify({ messageId: 'a1' }), extras: assistant },
+          encryption,
+        ),
+      );
+
+      await transport.sendFeedback('a1', { rating: 'down', comment: 'Wrong answer' });
+
+      const { annotation } = mockChannel.annotations.publishCalls[0];
+      expect(annotation.data).not.toContain('Wrong answer');
+      const decrypted = await decryptMessage(annotation as any, encryption);
+      expect(JSON.parse(decrypted.data)).toEqual({ messageId: 'a1', comment: 'Wrong answer' });
+    });
+
+    it('rejects feedback on a message that is not on the channel', async () => {
+      await expect(transport.sendFeedback('missing', { rating: 'up' })).rejects.toThrow(
+        'No response with message id "missing" on the channel',
+      );
+    });
+  });
+
+  describe('agents', () => {
+    it('addresses prompts to the target agent', async () => {
+      let capability = 'invoices';
+      transport = new AblyChatTransport({
+        channel: mockChannel as any,
+        target: () => ({ agent: 'billing', capability }),
+      });
+
+      transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+      await new Promise((r) => setTimeout(r, 10));
+      capability = 'refunds';
+      transport.sendMessages({
+        trigger: 'regenerate-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(mockChannel.publishCalls.map((c) => c.message.extras.headers)).toMatchObject([
+        { agent: 'billing', capability: 'invoices' },
+        { agent: 'billing', capability: 'refunds' },
+      ]);
+    });
+
+    it('reports the agent whose claim on a prompt came first', async () => {
+      const callback = vi.fn();
+      transport.onRespondingAgentChange(callback);
+      await new Promise((r) => setTimeout(r, 10));
+      const claim = (promptId: string, agent: string, serial: string) => ({
+        name: 'claim',
+        action: 'message.create' as const,
+        serial,
+        extras: { headers: { role: 'assistant', promptId, agent } },
+      });
+
+      mockChannel.simulateMessage(claim('p-1', 'billing', 'S1'));
+      mockChannel.simulateMessage(claim('p-1', 'support', 'S2'));
+      expect(transport.respondingAgent).toEqual({ agent: 'billing', promptId: 'p-1' });
+
+      mockChannel.simulateMessage(claim('p-2', 'support', 'S3'));
+      expect(transport.respondingAgent).toEqual({ agent: 'support', promptId: 'p-2' });
+      expect(callback.mock.calls.map(([c]) => c.agent)).toEqual(['billing', 'support']);
+    });
+  });
+
+  describe('retractions', () => {
+    const retract = (promptId: string, serial: string, reason?: string) => ({
+      name: `text:${serial}`,
+      action: 'message.delete' as const,
+      serial,
+      data: '',
+      extras: { headers: { role: 'assistant', promptId } },
+      version: {
+        serial: `${serial}-v2`,
+        timestamp: 0,
+        metadata: { event: 'retract', ...(reason != null ? { reason } : {}) },
+      },
+    });
+
+    it('streams a tombstone when the response is retracted while it streams', async () => {
+      const onRetraction = vi.fn();
+      transport.onRetraction(onRetraction);
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('chat-message');
+      const extras = { headers: { role: 'assistant', promptId } };
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'text:S1',
+        action: 'message.create',
+        serial: 'S1',
+        extras,
+      });
+      mockChannel.simulateMessage(retract(promptId, 'S1', 'policy'));
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S2',
+        data: '{"finishReason":"stop"}',
+        extras,
+      });
+
+      const chunks = await collectChunks(stream);
+      expect(chunks).toContainEqual({
+        type: 'data-tombstone',
+        id: 'tombstone',
+        data: { reason: 'policy' },
+      });
+      expect(onRetraction).not.toHaveBeenCalled();
+    });
+
+    it('reports a response retracted after it finished, once, with its message id', async () => {
+      const onRetraction = vi.fn();
+      transport.onRetraction(onRetraction);
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('chat-message');
+      const extras = { headers: { role: 'assistant', promptId } };
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'start',
+        action: 'message.create',
+        serial: 'S0',
+        data: JSON.stringify({ messageId: 'msg-2' }),
+        extras,
+      });
+      mockChannel.simulateMessage({
+        name: 'text:S1',
+        action: 'message.create',
+        serial: 'S1',
+        extras,
+      });
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S2',
+        data: '{"finishReason":"stop"}',
+        extras,
+      });
+      await collectChunks(stream);
+
+      mockChannel.simulateMessage(retract(promptId, 'S1', 'Removed by moderation'));
+      mockChannel.simulateMessage(retract(promptId, 'S3', 'Removed by moderation'));
+
+      expect(onRetraction.mock.calls).toEqual([
+        [{ promptId, messageId: 'msg-2', reason: 'Removed by moderation' }],
+      ]);
+      expect((transport as any).buffer.isEmpty).toBe(true);
+
+      const messages: UIMessage[] = [
+        makeUserMessage('msg-1', 'Hello'),
+        { id: 'msg-2', role: 'assistant', parts: [{ type: 'text', text: 'Hi' }] },
+      ];
+      expect(applyRetraction(messages, onRetraction.mock.calls[0][0])[1].parts).toEqual([
+        { type: 'text', text: 'Hi' },
+        { type: 'data-tombstone', id: 'tombstone', data: { reason: 'Removed by moderation' } },
+      ]);
+    });
+
+    it('reports rather than streams a retraction of an earlier response while reconnected', async () => {
+      const onRetraction = vi.fn();
+      transport.onRetraction(onRetraction);
+      (transport as any)._hasActiveStream = true;
+      const stream = await transport.reconnectToStream({ chatId: 'chat-123' });
+      const extras = { headers: { role: 'assistant', promptId: 'p-2' } };
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'text:S5',
+        action: 'message.create',
+        serial: 'S5',
+        extras,
+      });
+      mockChannel.simulateMessage(retract('p-1', 'S1'));
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S6',
+        data: '{"finishReason":"stop"}',
+        extras,
+      });
+
+      const chunks = await collectChunks(stream!);
+      expect(chunks.map((c) => c.type)).not.toContain('data-tombstone');
+      expect(onRetraction).toHaveBeenCalledWith({ promptId: 'p-1' });
+    });
+  });
+
+  describe('rewrites', () => {
+    const rewrite = (promptId: string, name: string, text: string) => ({
+      name,
+      action: 'message.update' as const,
+      serial: name.slice(name.indexOf(':') + 1),
+      data: text,
+      extras: { headers: { role: 'assistant', promptId } },
+      version: { serial: 'v2', timestamp: 0, metadata: { event: 'text-rewrite' } },
+    });
+
+    it('reports a part rewritten after its response finished, positioned in its message', async () => {
+      const onRewrite = vi.fn();
+      transport.onRewrite(onRewrite);
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('chat-message');
+      const extras = { headers: { role: 'assistant', promptId } };
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'start',
+        action: 'message.create',
+        serial: 'S0',
+        data: JSON.stringify({ messageId: 'msg-2' }),
+        extras,
+      });
+      for (const serial of ['S1', 'S2']) {
+        mockChannel.simulateMessage({
+          name: `text:${serial}`,
+          action: 'message.create',
+          serial,
+          data: serial === 'S1' ? 'Hi' : 'the key is sk-123',
+          extras,
+        });
+      }
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S3',
+        data: '{"finishReason":"stop"}',
+        extras,
+      });
+      await collectChunks(stream);
+
+      mockChannel.simulateMessage(rewrite(promptId, 'text:S2', 'the key is ******'));
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(onRewrite.mock.calls).toEqual([
+        [{ promptId, messageId: 'msg-2', type: 'text', index: 1, text: 'the key is ******' }],
+      ]);
+      expect((transport as any).buffer.isEmpty).toBe(true);
+
+      const messages: UIMessage[] = [
+        makeUserMessage('msg-1', 'Hello'),
+        {
+          id: 'msg-2',
+          role: 'assistant',
+          parts: [
+            { type: 'text', text: 'Hi' },
+            { type: 'text', text: 'the key is sk-123' },
+          ],
+        },
+      ];
+      expect(applyRewrite(messages, onRewrite.mock.calls[0][0])[1].parts).toEqual([
+        { type: 'text', text: 'Hi' },
+        { type: 'text', text: 'the key is ******' },
+      ]);
+    });
+
+    it('reports rather than streams a rewrite of an earlier response', async () => {
+      const onRewrite = vi.fn();
+      transport.onRewrite(onRewrite);
+      const history = [
+        {
+          name: 'start',
+          action: 'message.create',
+          serial: 'H1',
+          data: JSON.stringify({ messageId: 'msg-1' }),
+          extras: { headers: { role: 'assistant', promptId: 'p-1' } },
+        },
+        {
+          name: 'text:H2',
+          action: 'message.create',
+          serial: 'H2',
+          data: 'sk-123',
+          extras: { headers: { role: 'assistant', promptId: 'p-1' } },
+        },
+        {
+          name: 'finish',
+          action: 'message.create',
+          serial: 'H3',
+          data: '{"finishReason":"stop"}',
+          extras: { headers: { role: 'assistant', promptId: 'p-1' } },
+        },
+      ];
+      (mockChannel as any).history = () => Promise.resolve({ items: [...history].reverse() });
+      await transport.loadChatHistory();
+
+      const stream = await transport.sendMessages({
+        trigger: 'submit-message',
+        chatId: 'chat-123',
+        messageId: undefined,
+        messages: makeMessages(),
+        abortSignal: undefined,
+      });
+      const promptId = getPublishedPromptId('chat-message');
+      const extras = { headers: { role: 'assistant', promptId } };
+
+      await new Promise((r) => setTimeout(r, 10));
+      mockChannel.simulateMessage({
+        name: 'text:S1',
+        action: 'message.create',
+        serial: 'S1',
+        data: 'Hello',
+        extras,
+      });
+      mockChannel.simulateMessage(rewrite('p-1', 'text:H2', '******'));
+      mockChannel.simulateMessage({
+        name: 'finish',
+        action: 'message.create',
+        serial: 'S2',
+        data: '{"finishReason":"stop"}',
+        extras,
+      });
+
+      const chunks = await collectChunks(stream);
+      expect(chunks.map((c) => c.type)).not.toContain('data-rewrite');
+      expect(onRewrite).toHaveBeenCalledWith({
+        promptId: 'p-1',
+        messageId: 'msg-1',
+        type: 'text',
+        index: 0,
+        text: '******',
+      });
+    });
+  });
 });
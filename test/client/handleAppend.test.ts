@@ -182,4 +182,20 @@ describe('handleAppend', () => {
 
     expect(ensureStarted).toHaveBeenCalledTimes(3);
   });
+
+  it('throws for an append on an unsupported protocol version', () => {
+    const { ctx, enqueued } = createHandlerContext();
+    ctx.serialState.set('s1', { type: 'text', id: 't1', accumulated: '' });
+
+    expect(() =>
+      handleAppend(
+        {
+          ...buildAppendMessage({ serial: 's1', data: 'hi' }),
+          extras: { headers: { protocolVersion: '2' } },
+        },
+        ctx,
+      ),
+    ).toThrow('Unsupported protocol version 2');
+    expect(enqueued).toHaveLength(0);
+  });
 });
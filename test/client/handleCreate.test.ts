@@ -342,4 +342,118 @@ describe('handleCreate', () => {
     expect(controller.closed).toBe(false);
     expect(ensureStarted).not.toHaveBeenCalled();
   });
+
+  it('fragment — collects pieces without enqueuing, then reassembles the carrier', () => {
+    const payload = JSON.stringify({ data: { big: 'x'.repeat(20) } });
+
+    handleCreate(
+      buildInboundMessage({
+        name: 'fragment',
+        data: payload.slice(15),
+        extras: { headers: { fragmentId: 'frag-1', fragmentIndex: '1' } },
+      }),
+      ctx,
+    );
+    handleCreate(
+      buildInboundMessage({
+        name: 'fragment',
+        data: payload.slice(0, 15),
+        extras: { headers: { fragmentId: 'frag-1', fragmentIndex: '0' } },
+      }),
+      ctx,
+    );
+    expect(controller.chunks).toEqual([]);
+
+    handleCreate(
+      buildInboundMessage({
+        name: 'data-report',
+        data: '',
+        extras: { headers: { fragmentId: 'frag-1', fragmentCount: '2' } },
+      }),
+      ctx,
+    );
+
+    expect(controller.chunks).toEqual([{ type: 'data-report', data: { big: 'x'.repeat(20) } }]);
+  });
+
+  it('fragment — throws when the carrier arrives before all fragments', () => {
+    expect(() =>
+      handleCreate(
+        buildInboundMessage({
+          name: 'file',
+          data: '',
+          extras: { headers: { fragmentId: 'frag-missing', fragmentCount: '3' } },
+        }),
+        ctx,
+      ),
+    ).toThrow('Missing fragments for file payload');
+  });
+
+  // ── Protocol version ────────────────────────────────────────────────
+
+  it('accepts messages stamped with the current protocol version', () => {
+    handleCreate(
+      buildInboundMessage({
+        name: 'text:part-1',
+        serial: 'ser-1',
+        extras: { headers: { role: 'assistant', protocolVersion: '1' } },
+      }),
+      ctx,
+    );
+
+    expect(controller.chunks).toEqual([{ type: 'text-start', id: 'part-1' }]);
+  });
+
+  it('throws a clear error for an unsupported protocol version', () => {
+    expect(() =>
+      handleCreate(
+        buildInboundMessage({
+          name: 'text:part-1',
+          extras: { headers: { role: 'assistant', protocolVersion: '99' } },
+        }),
+        ctx,
+      ),
+    ).toThrow('Unsupported protocol version 99 on "text:part-1" (supported up to 1)');
+    expect(controller.chunks).toEqual([]);
+  });
+
+  // ── Duplicate creates ───────────────────────────────────────────────
+
+  it.each([
+    { label: 'text', name: 'text:part-1' },
+    { label: 'reasoning', name: 'reasoning:reason-1' },
+    { label: 'tool', name: 'tool:call-1:myTool' },
+  ])('$label — ignores a redelivered create for a tracked serial', ({ name }) => {
+    handleCreate(buildInboundMessage({ name, serial: 'ser-1' }), ctx);
+    handleCreate(buildInboundMessage({ name, serial: 'ser-1' }), ctx);
+
+    expect(ensureStarted).toHaveBeenCalledOnce();
+    expect(controller.chunks).toHaveLength(1);
+  });
+
+  it('ignores a duplicate create for a part already in progress under another serial', () => {
+    handleCreate(buildInboundMessage({ name: 'tool:call-1:search', serial: 'ser-1' }), ctx);
+    handleCreate(buildInboundMessage({ name: 'tool:call-1:search', serial: 'ser-2' }), ctx);
+
+    expect(controller.chunks).toEqual([
+      { type: 'tool-input-start', toolCallId: 'call-1', toolName: 'search' },
+    ]);
+    expect([...ctx.serialState.keys()]).toEqual(['ser-1']);
+  });
+
+  it.each([
+    { label: 'text', name: 'text:p-1:1:t1', chunk: { type: 'text-start', id: 'p-1:1:t1' } },
+    {
+      label: 'reasoning',
+      name: 'reasoning:p-1:1:r1',
+      chunk: { type: 'reasoning-start', id: 'p-1:1:r1' },
+    },
+  ])('$label — ignores a part republished under another serial', ({ name, chunk }) => {
+    // A restarted worker republishes the part with the same deterministic name
+    handleCreate(buildInboundMessage({ name, serial: 'ser-1' }), ctx);
+    handleCreate(buildInboundMessage({ name, serial: 'ser-2' }), ctx);
+
+    expect(controller.chunks).toEqual([chunk]);
+    expect([...ctx.serialState.keys()]).toEqual(['ser-1']);
+  });
 });
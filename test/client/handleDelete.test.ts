@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleDelete } from '../../src/client/handlers/handleDelete.js';
+import type { HandlerContext } from '../../src/client/types.js';
+import { buildInboundMessage } from '../helpers/messageBuilders.js';
+import { createHandlerContext } from '../helpers/contextBuilder.js';
+
+describe('handleDelete', () => {
+  let ctx: HandlerContext;
+  let enqueued: ReturnType<typeof createHandlerContext>['enqueued'];
+  let ensureStarted: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    ({ ctx, enqueued, ensureStarted } = createHandlerContext());
+  });
+
+  function makeDeleteMessage(name: string, metadata?: Record<string, string>) {
+    return buildInboundMessage({
+      action: 'message.delete',
+      name,
+      data: '',
+      version: { serial: 'v2', timestamp: Date.now(), metadata },
+    });
+  }
+
+  it('enqueues a tombstone part with the retraction reason', () => {
+    handleDelete(makeDeleteMessage('text:t0', { event: 'retract', reason: 'policy' }), ctx);
+
+    expect(ensureStarted).toHaveBeenCalled();
+    expect(enqueued).toEqual([
+      { type: 'data-tombstone', id: 'tombstone', data: { reason: 'policy' } },
+    ]);
+  });
+
+  it('enqueues a tombstone without a reason when none was given', () => {
+    handleDelete(makeDeleteMessage('tool:c1:search', { event: 'retract' }), ctx);
+
+    expect(enqueued).toEqual([{ type: 'data-tombstone', id: 'tombstone', data: {} }]);
+  });
+
+  it.each(['start', 'step-finish', 'finish', 'error', 'abort'])(
+    'ignores deletes of the %s lifecycle message',
+    (name) => {
+      handleDelete(makeDeleteMessage(name), ctx);
+
+      expect(ensureStarted).not.toHaveBeenCalled();
+      expect(enqueued).toEqual([]);
+    },
+  );
+});
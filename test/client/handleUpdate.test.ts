@@ -308,4 +308,119 @@ describe('handleUpdate', () => {
     expect(ctx.serialState.has('serial-A')).toBe(false);
     expect(ctx.serialState.has('serial-B')).toBe(true);
   });
+
+  // ─── 12. fragmented payloads ───────────────────────────────────────
+
+  it('reassembles a fragmented tool-output payload from collected fragments', () => {
+    const payload = JSON.stringify({ output: { rows: ['a', 'b', 'c'] } });
+    ctx.fragments.set('frag-1', [payload.slice(0, 10), payload.slice(10)]);
+
+    handleUpdate(
+      makeUpdateMessage({
+        name: 'tool-output:call-1',
+        data: '',
+        extras: { headers: { role: 'assistant', fragmentId: 'frag-1', fragmentCount: '2' } },
+      }),
+      ctx,
+    );
+
+    expect(enqueued).toEqual([
+      { type: 'tool-output-available', toolCallId: 'call-1', output: { rows: ['a', 'b', 'c'] } },
+    ]);
+    expect(ctx.fragments.size).toBe(0);
+  });
+
+  it('throws when a fragmented payload is missing pieces', () => {
+    ctx.fragments.set('frag-1', ['{"output":']);
+
+    expect(() =>
+      handleUpdate(
+        makeUpdateMessage({
+          name: 'tool-output:call-1',
+          data: '',
+          extras: { headers: { fragmentId: 'frag-1', fragmentCount: '2' } },
+        }),
+        ctx,
+      ),
+    ).toThrow('Missing fragments');
+  });
+
+  // ─── 13. protocol version ─────────────────────────────────────────
+
+  it('throws for an update on an unsupported protocol version', () => {
+    expect(() =>
+      handleUpdate(
+        buildInboundMessage({
+          action: 'message.update',
+          name: 'tool-output:call-1',
+          data: '{"output":1}',
+          extras: { headers: { protocolVersion: '2' } },
+        }),
+        ctx,
+      ),
+    ).toThrow('Unsupported protocol version 2');
+  });
+
+  // ─── Rewrites ───────────────────────────────────────────────────────
+
+  it('emits a data-rewrite part locating the rewritten part among its type', () => {
+    ctx.streamedParts.push(
+      { type: 'reasoning', id: 'r-0' },
+      { type: 'text', id: 't-0' },
+      { type: 'text', id: 't-1' },
+    );
+
+    handleUpdate(
+      makeUpdateMessage({
+        name: 'text:t-1',
+        data: 'Masked text',
+        version: { serial: 'v2', timestamp: 0, metadata: { event: 'text-rewrite' } },
+      }),
+      ctx,
+    );
+
+    expect(enqueued).toEqual([
+      {
+        type: 'data-rewrite',
+        id: 'rewrite:text:1',
+        data: { type: 'text', index: 1, text: 'Masked text' },
+      },
+    ]);
+  });
+
+  it('counts past the parts of the message this response continues', () => {
+    ctx.priorParts = { text: 2, reasoning: 0 };
+    ctx.streamedParts.push({ type: 'text', id: 't-0' });
+
+    handleUpdate(
+      makeUpdateMessage({
+        name: 'text:t-0',
+        data: 'Masked text',
+        version: { serial: 'v2', timestamp: 0, metadata: { event: 'text-rewrite' } },
+      }),
+      ctx,
+    );
+
+    expect(enqueued).toEqual([
+      {
+        type: 'data-rewrite',
+        id: 'rewrite:text:2',
+        data: { type: 'text', index: 2, text: 'Masked text' },
+      },
+    ]);
+  });
+
+  it('ignores a rewrite of a part that was not streamed in this response', () => {
+    handleUpdate(
+      makeUpdateMessage({
+        name: 'reasoning:r-9',
+        data: 'Masked',
+        version: { serial: 'v2', timestamp: 0, metadata: { event: 'reasoning-rewrite' } },
+      }),
+      ctx,
+    );
+
+    expect(enqueued).toEqual([]);
+    expect(ctx.serialState.size).toBe(0);
+  });
 });
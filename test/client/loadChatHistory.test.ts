@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AblyChatTransport } from '../../src/client/AblyChatTransport.js';
 import { createMockAbly, createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
+import { gzipCodec } from '../../src/compression.js';
+import { aesGcmEncryption, encryptMessage } from '../../src/encryption.js';
 import type * as Ably from 'ably';
 
 function makeHistoryResult(
@@ -598,4 +600,365 @@ describe('loadChatHistory', () => {
     expect(result.messages).toHaveLength(2);
     expect(result.messages[1].id).toBe('assistant-id-42');
   });
+
+  it('reassembles fragmented payloads, including tool output updated in place', async () => {
+    const output = { rows: 'r'.repeat(30) };
+    const outputJson = JSON.stringify({ output });
+    const fileJson = JSON.stringify({ url: 'data:text/plain;base64,QUJD', mediaType: 'text/plain' });
+    const assistant = { role: 'assistant' };
+
+    // History is newest-first. The tool message was updated in place, so it
+    // sits at its original position — before the fragments that complete it.
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: JSON.stringify({ finishReason: 'stop' }), serial: 'S7' },
+          {
+            name: 'file',
+            data: '',
+            serial: 'S6',
+            extras: { headers: { ...assistant, fragmentId: 'f2', fragmentCount: '2' } },
+          },
+          {
+            name: 'fragment',
+            data: fileJson.slice(20),
+            serial: 'S5',
+            extras: { headers: { ...assistant, fragmentId: 'f2', fragmentIndex: '1' } },
+          },
+          {
+            name: 'fragment',
+            data: fileJson.slice(0, 20),
+            serial: 'S4',
+            extras: { headers: { ...assistant, fragmentId: 'f2', fragmentIndex: '0' } },
+          },
+          {
+            name: 'fragment',
+            data: outputJson.slice(25),
+            serial: 'S3',
+            extras: { headers: { ...assistant, fragmentId: 'f1', fragmentIndex: '1' } },
+          },
+          {
+            name: 'fragment',
+            data: outputJson.slice(0, 25),
+            serial: 'S2',
+            extras: { headers: { ...assistant, fragmentId: 'f1', fragmentIndex: '0' } },
+          },
+          {
+            name: 'tool-output:call-1',
+            action: 'message.update',
+            data: '',
+            serial: 'S1',
+            extras: { headers: { ...assistant, fragmentId: 'f1', fragmentCount: '2' } },
+          },
+          {
+            name: 'tool:call-1:search',
+            data: '{}',
+            serial: 'S0',
+            extras: { headers: { ...assistant, event: 'tool-input-available' } },
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    const parts = result.messages[0].parts as any[];
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toMatchObject({ state: 'output-available', output });
+    expect(parts[1]).toMatchObject({ type: 'file', url: 'data:text/plain;base64,QUJD' });
+  });
+
+  it('skips a fragmented payload whose fragments fell outside the history window', async () => {
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: JSON.stringify({ finishReason: 'stop' }), serial: 'S2' },
+          {
+            name: 'data-report',
+            data: '',
+            serial: 'S1',
+            extras: { headers: { fragmentId: 'gone', fragmentCount: '4' } },
+          },
+          { name: 'text:t1', data: 'Summary', serial: 'S0' },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[0].parts).toEqual([{ type: 'text', text: 'Summary', state: 'done' }]);
+  });
+
+  it('decompresses compressed payloads in history', async () => {
+    const output = { rows: 'row '.repeat(100) };
+    const compressed = await gzipCodec.compress(JSON.stringify({ output }));
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: JSON.stringify({ finishReason: 'stop' }), serial: 'S2' },
+          {
+            name: 'tool-output:call-1',
+            action: 'message.update',
+            data: compressed,
+            serial: 'S1',
+            extras: { headers: { compression: 'gzip' } },
+          },
+          {
+            name: 'tool:call-1:search',
+            data: '{}',
+            serial: 'S0',
+            extras: { headers: { event: 'tool-input-available' } },
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[0].parts[0]).toMatchObject({ state: 'output-available', output });
+  });
+
+  it('decompresses a payload compressed before it was split, after its fragments', async () => {
+    const output = { rows: 'row '.repeat(100) };
+    const compressed = await gzipCodec.compress(JSON.stringify({ output }));
+    const half = Math.ceil(compressed.length / 2);
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: JSON.stringify({ finishReason: 'stop' }), serial: 'S4' },
+          {
+            name: 'fragment',
+            data: compressed.slice(half),
+            serial: 'S3',
+            extras: { headers: { fragmentId: 'frag-1', fragmentIndex: '1' } },
+          },
+          {
+            name: 'fragment',
+            data: compressed.slice(0, half),
+            serial: 'S2',
+            extras: { headers: { fragmentId: 'frag-1', fragmentIndex: '0' } },
+          },
+          {
+            name: 'tool-output:call-1',
+            action: 'message.update',
+            data: '',
+            serial: 'S1',
+            extras: { headers: { compression: 'gzip', fragmentId: 'frag-1', fragmentCount: '2' } },
+          },
+          {
+            name: 'tool:call-1:search',
+            data: '{}',
+            serial: 'S0',
+            extras: { headers: { event: 'tool-input-available' } },
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[0].parts[0]).toMatchObject({ state: 'output-available', output });
+  });
+
+  it('skips history messages compressed with an unknown codec', async () => {
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: JSON.stringify({ finishReason: 'stop' }), serial: 'S2' },
+          {
+            name: 'data-report',
+            data: 'opaque',
+            serial: 'S1',
+            extras: { headers: { compression: 'zstd' } },
+          },
+          { name: 'text:t1', data: 'Summary', serial: 'S0' },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[0].parts).toEqual([{ type: 'text', text: 'Summary', state: 'done' }]);
+  });
+
+  it('decrypts encrypted history, including concatenated appends', async () => {
+    const encryption = aesGcmEncryption(btoa('0123456789abcdef0123456789abcdef'));
+    const seal = (data: string, headers: Record<string, string> = {}) =>
+      encryptMessage({ data, extras: { headers } }, encryption);
+    const [hello, world, finish] = await Promise.all([
+      seal('Hello, '),
+      seal('world'),
+      seal(JSON.stringify({ finishReason: 'stop' })),
+    ]);
+
+    const encrypted = new AblyChatTransport({ channel: mockChannel as any, encryption });
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', serial: 'S1', data: finish.data, extras: finish.extras },
+          {
+            name: 'text:t1',
+            serial: 'S0',
+            data: hello.data + world.data,
+            extras: world.extras,
+          },
+        ]),
+      );
+
+    const result = await encrypted.loadChatHistory();
+    expect(result.messages[0].parts).toEqual([
+      { type: 'text', text: 'Hello, world', state: 'done' },
+    ]);
+  });
+
+  it('rejects history written with an unsupported protocol version', async () => {
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          {
+            name: 'text:t1',
+            data: 'From the future',
+            serial: 'S0',
+            extras: { headers: { role: 'assistant', protocolVersion: '7' } },
+          },
+        ]),
+      );
+
+    await expect(transport.loadChatHistory()).rejects.toThrow('Unsupported protocol version 7');
+  });
+
+  it('uses the rewritten text of a message updated with a rewrite', async () => {
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          // Rewritten in place after the response streamed; no finish yet
+          {
+            name: 'text:t0',
+            data: 'The key is [redacted]',
+            action: 'message.update',
+            serial: 'S2',
+            version: { serial: 'v9', timestamp: Date.now(), metadata: { event: 'text-rewrite' } },
+          },
+          {
+            name: 'chat-message',
+            data: JSON.stringify({
+              message: { id: 'user-1', role: 'user', parts: [{ type: 'text', text: 'Key?' }] },
+            }),
+            serial: 'S1',
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[1].parts).toEqual([
+      { type: 'text', text: 'The key is [redacted]', state: 'done' },
+    ]);
+    expect((result.messages[1].metadata as any)?.contentComplete).toBe(true);
+  });
+
+  it('replaces retracted content with a tombstone part', async () => {
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          {
+            name: 'text:t0',
+            data: '',
+            action: 'message.delete',
+            serial: 'S2',
+            version: {
+              serial: 'v9',
+              timestamp: Date.now(),
+              metadata: { event: 'retract', reason: 'policy' },
+            },
+          },
+          {
+            name: 'chat-message',
+            data: JSON.stringify({
+              message: { id: 'user-1', role: 'user', parts: [{ type: 'text', text: 'Key?' }] },
+            }),
+            serial: 'S1',
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[1]).toMatchObject({
+      id: 't0',
+      role: 'assistant',
+      parts: [{ type: 'data-tombstone', id: 'tombstone', data: { reason: 'policy' } }],
+    });
+  });
+
+  it('sets aggregated feedback as the response metadata', async () => {
+    const feedback = {
+      'feedback:unique.v1': {
+        up: { total: 2, clientIds: ['a', 'b'], clipped: false },
+        down: { total: 1, clientIds: ['c'], clipped: false },
+      },
+    };
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: '{}', serial: 'S4' },
+          { name: 'text:t0', data: 'Hello', serial: 'S3' },
+          {
+            name: 'start',
+            data: JSON.stringify({ messageId: 'a1' }),
+            serial: 'S2',
+            annotations: { summary: feedback },
+          },
+          {
+            name: 'chat-message',
+            data: JSON.stringify({
+              message: { id: 'user-1', role: 'user', parts: [{ type: 'text', text: 'Hi' }] },
+            }),
+            serial: 'S1',
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages[1].id).toBe('a1');
+    expect((result.messages[1].metadata as any).feedback).toEqual({ up: 2, down: 1 });
+  });
+
+  it('continues an approved message with the generation that follows the approval', async () => {
+    (mockChannel as any).history = () =>
+      Promise.resolve(
+        makeHistoryResult([
+          { name: 'finish', data: '{}', serial: 'S8' },
+          { name: 'text:t1', data: 'Deleted', serial: 'S7' },
+          { name: 'tool-output:call-1', data: JSON.stringify({ output: 'ok' }), serial: 'S6' },
+          { name: 'start', data: JSON.stringify({ messageId: 'a1' }), serial: 'S5' },
+          {
+            name: 'tool-approval-response',
+            data: JSON.stringify({
+              messageId: 'a1',
+              approvals: [{ approvalId: 'approval-1', approved: true }],
+            }),
+            serial: 'S4',
+          },
+          { name: 'finish', data: '{}', serial: 'S3b' },
+          {
+            name: 'tool-approval:call-1',
+            data: JSON.stringify({ approvalId: 'approval-1' }),
+            serial: 'S3',
+          },
+          { name: 'tool:call-1:deleteFiles', data: '{"path":"/tmp"}', serial: 'S2b' },
+          { name: 'start', data: JSON.stringify({ messageId: 'a1' }), serial: 'S2' },
+          {
+            name: 'chat-message',
+            data: JSON.stringify({
+              message: { id: 'user-1', role: 'user', parts: [{ type: 'text', text: 'Clean up' }] },
+            }),
+            serial: 'S1',
+          },
+        ]),
+      );
+
+    const result = await transport.loadChatHistory();
+    expect(result.messages).toHaveLength(2);
+    expect(result.messages[1]).toMatchObject({
+      id: 'a1',
+      parts: [
+        {
+          toolCallId: 'call-1',
+          state: 'output-available',
+          approval: { id: 'approval-1', approved: true },
+          output: 'ok',
+        },
+        { type: 'text', text: 'Deleted' },
+      ],
+    });
+  });
 });
@@ -41,6 +41,9 @@ export function createHandlerContext(opts?: {
     ensureStarted,
     emitState,
     closed: false,
+    fragments: new Map<string, string[]>(),
+    streamedParts: [],
+    priorParts: { text: 0, reasoning: 0 },
     ...opts?.overrides,
   };
 
@@ -158,21 +158,100 @@ export function createMockPresence(): MockPresence {
   };
 }
 
+export interface AnnotationPublishCall {
+  messageSerial: string;
+  annotation: Ably.OutboundAnnotation;
+}
+
+export interface MockAnnotations {
+  publishCalls: AnnotationPublishCall[];
+  listeners: Array<{ type: string; listener: (annotation: Ably.Annotation) => void }>;
+  publish: (messageSerial: string, annotation: Ably.OutboundAnnotation) => Promise<void>;
+  subscribe: (type: string, listener: (annotation: Ably.Annotation) => void) => Promise<void>;
+  unsubscribe: (type: string, listener: (annotation: Ably.Annotation) => void) => void;
+  simulateAnnotation: (annotation: Partial<Ably.Annotation>) => void;
+}
+
+/**
+ * Mock channel annotations. Publishing aggregates `unique.v1` annotations into
+ * the summary of the annotated message in `publishedMessages`.
+ */
+export function createMockAnnotations(publishedMessages: Ably.InboundMessage[]): MockAnnotations {
+  const annotations: MockAnnotations = {
+    publishCalls: [],
+    listeners: [],
+
+    publish(messageSerial, annotation) {
+      annotations.publishCalls.push({ messageSerial, annotation });
+
+      const existing = publishedMessages.find((m) => m.serial === messageSerial);
+      if (existing && annotation.type.endsWith(':unique.v1') && annotation.name) {
+        const clientId = annotation.clientId ?? 'anonymous';
+        const summary = (existing.annotations.summary[annotation.type] ?? {}) as Record<
+          string,
+          Ably.SummaryClientIdList
+        >;
+        // Each client counts toward one name only
+        for (const entry of Object.values(summary)) {
+          entry.clientIds = entry.clientIds.filter((id) => id !== clientId);
+          entry.total = entry.clientIds.length;
+        }
+        const entry = summary[annotation.name] ?? { total: 0, clientIds: [], clipped: false };
+        entry.clientIds.push(clientId);
+        entry.total = entry.clientIds.length;
+        summary[annotation.name] = entry;
+        existing.annotations.summary[annotation.type] = summary;
+      }
+      return Promise.resolve();
+    },
+
+    subscribe(type, listener) {
+      annotations.listeners.push({ type, listener });
+      return Promise.resolve();
+    },
+
+    unsubscribe(type, listener) {
+      const idx = annotations.listeners.findIndex(
+        (l) => l.type === type && l.listener === listener,
+      );
+      if (idx >= 0) annotations.listeners.splice(idx, 1);
+    },
+
+    simulateAnnotation(partial) {
+      const annotation = {
+        id: 'annotation-id',
+        action: 'annotation.create',
+        serial: nextSerial(),
+        messageSerial: 'serial-1',
+        timestamp: Date.now(),
+        ...partial,
+      } as Ably.Annotation;
+      for (const { type, listener } of [...annotations.listeners]) {
+        if (type === annotation.type) listener(annotation);
+      }
+    },
+  };
+  return annotations;
+}
+
 export function createMockChannel(): Ably.RealtimeChannel & {
   publishCalls: PublishCall[];
   appendCalls: AppendCall[];
   updateCalls: UpdateCall[];
+  deleteCalls: UpdateCall[];
   simulateMessage: (message: Partial<Ably.InboundMessage>) => void;
   simulateStateChange: (stateChange: Partial<Ably.ChannelStateChange>) => void;
   listeners: MessageListener[];
   stateListeners: Map<string, StateListener[]>;
   lastHistoryParams: { untilAttach?: boolean; limit?: number } | undefined;
+  annotations: MockAnnotations;
 } {
   const listeners: MessageListener[] = [];
   const stateListeners = new Map<string, StateListener[]>();
   const publishCalls: PublishCall[] = [];
   const appendCalls: AppendCall[] = [];
   const updateCalls: UpdateCall[] = [];
+  const deleteCalls: UpdateCall[] = [];
 
   // Track published serials for history simulation
   const publishedMessages: Ably.InboundMessage[] = [];
@@ -182,6 +261,7 @@ export function createMockChannel(): Ably.RealtimeChannel & {
     publishCalls,
     appendCalls,
     updateCalls,
+    deleteCalls,
     listeners,
     stateListeners,
     publishedMessages,
@@ -265,6 +345,7 @@ export function createMockChannel(): Ably.RealtimeChannel & {
       if (existing) {
         if (message.name) existing.name = message.name;
         if (message.data !== undefined) existing.data = message.data;
+        if (message.extras !== undefined) existing.extras = message.extras;
         existing.action = 'message.update';
       }
 
@@ -274,6 +355,31 @@ export function createMockChannel(): Ably.RealtimeChannel & {
       } as unknown as Ably.UpdateDeleteResult);
     },
 
+    deleteMessage(
+      message: Ably.Message,
+      operation?: Ably.MessageOperation,
+    ): Promise<Ably.UpdateDeleteResult> {
+      deleteCalls.push({ message, operation });
+
+      // Mark deleted in published messages, with patch semantics like updates
+      const existing = publishedMessages.find((m) => m.serial === message.serial);
+      if (existing) {
+        if (message.data !== undefined) existing.data = message.data;
+        existing.action = 'message.delete';
+        existing.version = {
+          ...existing.version,
+          serial: nextSerial(),
+          timestamp: Date.now(),
+          ...(operation?.metadata ? { metadata: operation.metadata } : {}),
+        };
+      }
+
+      return Promise.resolve({
+        serial: message.serial!,
+        version: nextSerial(),
+      } as unknown as Ably.UpdateDeleteResult);
+    },
+
     lastHistoryParams: undefined as { untilAttach?: boolean; limit?: number } | undefined,
 
     history(params?: {
@@ -381,11 +487,10 @@ export function createMockChannel(): Ably.RealtimeChannel & {
     modes: [],
     presence: createMockPresence() as any,
     push: {} as any,
-    annotations: {} as any,
+    annotations: createMockAnnotations(publishedMessages) as any,
     setOptions: () => Promise.resolve(),
     whenState: () => Promise.resolve(null),
     getMessage: () => Promise.resolve({} as any),
-    deleteMessage: () => Promise.resolve({} as any),
     getMessageVersions: () => Promise.resolve({} as any),
     emit: () => {},
     once: () => {},
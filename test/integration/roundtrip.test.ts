@@ -5,7 +5,9 @@ import { handleAppend } from '../../src/client/handlers/handleAppend.js';
 import { handleUpdate } from '../../src/client/handlers/handleUpdate.js';
 import { createChunkStream, collectChunks } from '../helpers/streamHelpers.js';
 import { createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
-import type { UIMessageChunk } from 'ai';
+import { readUIMessageStream } from 'ai';
+import type { UIMessage, UIMessageChunk } from 'ai';
+import { applyRewrites } from '../../src/shared.js';
 import type { InboundMessage } from 'ably';
 import type { SerialTracker, HandlerContext } from '../../src/client/types.js';
 
@@ -44,7 +46,16 @@ describe('roundtrip: publishToAbly → client handlers', () => {
           }
         };
 
-        const ctx: HandlerContext = { controller, serialState, ensureStarted, emitState };
+        const ctx: HandlerContext = {
+          controller,
+          serialState,
+          ensureStarted,
+          emitState,
+          closed: false,
+          fragments: new Map(),
+          streamedParts: [],
+          priorParts: { text: 0, reasoning: 0 },
+        };
 
         channel.subscribe((message: InboundMessage) => {
           const action = message.action;
@@ -175,6 +186,7 @@ describe('roundtrip: publishToAbly → client handlers', () => {
         data: msg.data ?? '',
         action: 'message.update',
         serial: msg.serial,
+        extras: msg.extras,
         version: {
           serial: `v-${Date.now()}`,
           timestamp: Date.now(),
@@ -227,6 +239,59 @@ describe('roundtrip: publishToAbly → client handlers', () => {
     expect((finish as any).finishReason).toBe('stop');
   });
 
+  it('round-trips coalesced text deltas to the same final text', async () => {
+    wireChannelToSubscribers(channel);
+    const clientStream = createClientStream(channel);
+
+    const serverStream = createChunkStream([
+      { type: 'start' },
+      { type: 'start-step' },
+      { type: 'text-start', id: 'text-0' },
+      { type: 'text-delta', id: 'text-0', delta: 'Hello' },
+      { type: 'text-delta', id: 'text-0', delta: ', ' },
+      { type: 'text-delta', id: 'text-0', delta: 'world!' },
+      { type: 'text-end', id: 'text-0' },
+      { type: 'finish-step' },
+      { type: 'finish', finishReason: 'stop' },
+    ]);
+    await publishToAbly({ channel, stream: serverStream, coalesce: { maxBytes: 8 } });
+
+    const clientChunks = await collectChunks(clientStream);
+    const text = clientChunks
+      .filter((c) => c.type === 'text-delta')
+      .map((c) => (c as any).delta)
+      .join('');
+    expect(text).toBe('Hello, world!');
+    expect(clientChunks.map((c) => c.type)).toContain('text-end');
+  });
+
+  it('round-trips oversized tool output and data parts through fragments', async () => {
+    wireChannelToSubscribers(channel);
+    const clientStream = createClientStream(channel);
+
+    const output = { rows: Array.from({ length: 20 }, (_, i) => `row-${i}`) };
+    const serverChunks: UIMessageChunk[] = [
+      { type: 'start' },
+      { type: 'start-step' },
+      { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'query', input: {} },
+      { type: 'tool-output-available', toolCallId: 'call-1', output },
+      { type: 'data-report', data: { body: 'b'.repeat(120) } } as any,
+      { type: 'finish-step' },
+      { type: 'finish', finishReason: 'stop' },
+    ];
+    await publishToAbly({ channel, stream: createChunkStream(serverChunks), maxMessageSize: 40 });
+
+    const clientChunks = await collectChunks(clientStream);
+    expect(clientChunks.find((c) => c.type === 'tool-output-available')).toMatchObject({
+      toolCallId: 'call-1',
+      output,
+    });
+    expect(clientChunks.find((c) => c.type === 'data-report')).toMatchObject({
+      data: { body: 'b'.repeat(120) },
+    });
+    expect(clientChunks.map((c) => c.type)).not.toContain('fragment');
+  });
+
   it('round-trips a streaming tool call with output', async () => {
     wireChannelToSubscribers(channel);
     const clientStream = createClientStream(channel);
@@ -472,4 +537,40 @@ describe('roundtrip: publishToAbly → client handlers', () => {
     expect(deltas).toHaveLength(1);
     expect((deltas[0] as any).delta).toBe('Hello, world!');
   });
+
+  it('round-trips a rewrite of a finished text part', async () => {
+    wireChannelToSubscribers(channel);
+    const clientStream = createClientStream(channel);
+
+    const published = await publishToAbly({
+      channel,
+      stream: createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'reasoning-start', id: 'r-0' },
+        { type: 'reasoning-delta', id: 'r-0', delta: 'Thinking' },
+        { type: 'reasoning-end', id: 'r-0' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'First' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'text-start', id: 'text-1' },
+        { type: 'text-delta', id: 'text-1', delta: 'The key is ' },
+        { type: 'text-delta', id: 'text-1', delta: 'sk-123' },
+        { type: 'text-end', id: 'text-1' },
+        { type: 'data-rewrite', data: { id: 'text-1', text: 'The key is [redacted]' } } as any,
+        { type: 'finish-step' },
+        { type: 'finish', finishReason: 'stop' },
+      ]),
+    });
+
+    let message: UIMessage | undefined;
+    for await (const m of readUIMessageStream({ stream: clientStream })) message = m;
+    const texts = applyRewrites(message!).parts.filter((p) => p.type === 'text');
+    expect(texts.map((p) => (p as any).text)).toEqual(['First', 'The key is [redacted]']);
+
+    // The returned chunks carry the rewritten text instead of the rewrite
+    const deltas = published.filter((c) => c.type === 'text-delta' && c.id === 'text-1');
+    expect(deltas).toEqual([{ type: 'text-delta', id: 'text-1', delta: 'The key is [redacted]' }]);
+    expect(published.map((c) => c.type)).not.toContain('data-rewrite');
+  });
 });
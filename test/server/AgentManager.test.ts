@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AgentManager } from '../../src/server/AgentManager.js';
+import { createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
+import { createChunkStream } from '../helpers/streamHelpers.js';
+import { makeUserMessage } from '../helpers/messageBuilders.js';
+
+function createMockAblyWithChannels() {
+  const channels = new Map<string, ReturnType<typeof createMockChannel>>();
+  const ably = {
+    channels: {
+      get: vi.fn((name: string) => {
+        let channel = channels.get(name);
+        if (!channel) {
+          channel = createMockChannel();
+          (channel as any).name = name;
+          vi.spyOn(channel, 'detach');
+          channels.set(name, channel);
+        }
+        return channel;
+      }),
+      release: vi.fn((name: string) => {
+        channels.delete(name);
+      }),
+    },
+  };
+  return { ably: ably as any, channels };
+}
+
+describe('AgentManager', () => {
+  let ably: ReturnType<typeof createMockAblyWithChannels>['ably'];
+  let channels: ReturnType<typeof createMockAblyWithChannels>['channels'];
+  let handler: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetSerialCounter();
+    ({ ably, channels } = createMockAblyWithChannels());
+    handler = vi
+      .fn()
+      .mockImplementation(() =>
+        Promise.resolve(
+          createChunkStream([
+            { type: 'start' },
+            { type: 'text-start', id: 't0' },
+            { type: 'text-delta', id: 't0', delta: 'Hi' },
+            { type: 'text-end', id: 't0' },
+            { type: 'finish', finishReason: 'stop' },
+          ]),
+        ),
+      );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('subscribes once per channel, deduping concurrent joins', async () => {
+    const manager = new AgentManager({ ably, subscribeOptions: { handler } });
+
+    await Promise.all([manager.join('ait:a'), manager.join('ait:a'), manager.join('ait:b')]);
+    await manager.join('ait:a');
+
+    expect(ably.channels.get).toHaveBeenCalledTimes(2);
+    expect(manager.channels().map((c) => [c.channelName, c.state])).toEqual([
+      ['ait:a', 'active'],
+      ['ait:b', 'active'],
+    ]);
+
+    channels.get('ait:a')!.simulateMessage({
+      name: 'chat-message',
+      serial: 'S1',
+      data: JSON.stringify({ message: makeUserMessage('msg-1', 'Hello') }),
+      extras: { headers: { role: 'user' } },
+    });
+    await new Promise((r) => setTimeout(r, 50));
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('passes channelOptions when getting channels', async () => {
+    const channelOptions = { modes: ['SUBSCRIBE', 'ANNOTATION_SUBSCRIBE'] as any };
+    const manager = new AgentManager({ ably, subscribeOptions: { handler }, channelOptions });
+
+    await manager.join('ait:a');
+
+    expect(ably.channels.get).toHaveBeenCalledWith('ait:a', channelOptions);
+  });
+
+  it('rejects joins beyond maxChannels', async () => {
+    const manager = new AgentManager({ ably, subscribeOptions: { handler }, maxChannels: 1 });
+
+    await manager.join('ait:a');
+    await expect(manager.join('ait:b')).rejects.toThrow(
+      'Agent is already serving the maximum of 1 channels',
+    );
+
+    await manager.leave('ait:a');
+    await expect(manager.join('ait:b')).resolves.toBeUndefined();
+  });
+
+  it('leaves a channel after idleTimeout without messages', async () => {
+    vi.useFakeTimers();
+    const manager = new AgentManager({
+      ably,
+      subscribeOptions: { handler },
+      idleTimeout: 1000,
+    });
+    await manager.join('ait:a');
+    const channel = channels.get('ait:a')!;
+
+    await vi.advanceTimersByTimeAsync(800);
+    channel.simulateMessage({ name: 'text:t0', extras: { headers: { role: 'assistant' } } });
+    await vi.advanceTimersByTimeAsync(800);
+    expect(manager.status('ait:a')?.state).toBe('active');
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(manager.status('ait:a')).toBeUndefined();
+    expect(channel.detach).toHaveBeenCalled();
+    expect(ably.channels.release).toHaveBeenCalledWith('ait:a');
+  });
+
+  it('keeps a channel with a generation in flight, however long it goes quiet', async () => {
+    vi.useFakeTimers();
+    let release!: () => void;
+    handler.mockImplementation(() => {
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: 'start' });
+          // Waiting on a slow tool call
+          release = () => {
+            controller.enqueue({ type: 'finish', finishReason: 'stop' });
+            controller.close();
+          };
+        },
+      });
+      return Promise.resolve(stream);
+    });
+    const manager = new AgentManager({ ably, subscribeOptions: { handler }, idleTimeout: 1000 });
+    await manager.join('ait:a');
+
+    channels.get('ait:a')!.simulateMessage({
+      name: 'chat-message',
+      serial: 'S1',
+      data: JSON.stringify({ message: makeUserMessage('msg-1', 'Hello') }),
+      extras: { headers: { role: 'user' } },
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(manager.status('ait:a')?.state).toBe('active');
+    expect(handler.mock.lastCall![0].abortSignal.aborted).toBe(false);
+
+    release();
+    await vi.advanceTimersByTimeAsync(800);
+    expect(manager.status('ait:a')?.state).toBe('active');
+    await vi.advanceTimersByTimeAsync(1300);
+    expect(manager.status('ait:a')).toBeUndefined();
+  });
+
+  it('reports per-channel status', async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const manager = new AgentManager({ ably, subscribeOptions: { handler } });
+
+    const joining = manager.join('ait:a');
+    expect(manager.status('ait:a')).toEqual({
+      channelName: 'ait:a',
+      state: 'joining',
+      joinedAt: 1_000,
+      lastActivityAt: 1_000,
+    });
+    await joining;
+
+    await vi.advanceTimersByTimeAsync(500);
+    channels.get('ait:a')!.simulateMessage({ name: 'start' });
+    expect(manager.status('ait:a')).toMatchObject({ state: 'active', lastActivityAt: 1_500 });
+    expect(manager.status('ait:missing')).toBeUndefined();
+
+    await manager.close();
+  });
+
+  it('drains every channel on close and rejects later joins', async () => {
+    const manager = new AgentManager({ ably, subscribeOptions: { handler } });
+    await manager.join('ait:a');
+    await manager.join('ait:b');
+    const joined = [...channels.values()];
+
+    await manager.close();
+
+    expect(manager.channels()).toEqual([]);
+    for (const channel of joined) {
+      expect(channel.listeners).toHaveLength(0);
+      expect(channel.detach).toHaveBeenCalled();
+    }
+    await expect(manager.join('ait:c')).rejects.toThrow('AgentManager is closed');
+  });
+
+  it('forgets a channel whose join failed so it can be joined again', async () => {
+    const manager = new AgentManager({ ably, subscribeOptions: { handler } });
+    ably.channels.get('ait:a').subscribe = vi.fn().mockRejectedValueOnce(new Error('denied'));
+
+    await expect(manager.join('ait:a')).rejects.toThrow('denied');
+    expect(manager.status('ait:a')).toBeUndefined();
+
+    await manager.join('ait:a');
+    expect(manager.status('ait:a')?.state).toBe('active');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  inMemoryConversationStore,
+  fileConversationStore,
+} from '../../src/server/conversationStore.js';
+import type { ConversationStore } from '../../src/server/conversationStore.js';
+import { makeUserMessage } from '../helpers/messageBuilders.js';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'conversations-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe.each([
+  { name: 'inMemoryConversationStore', create: () => inMemoryConversationStore() },
+  {
+    name: 'fileConversationStore',
+    create: () => fileConversationStore({ directory: join(directory, 'nested') }),
+  },
+])('$name', ({ create }) => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    store = create();
+  });
+
+  it('returns undefined for a channel with no stored conversation', async () => {
+    expect(await store.load('ait:none')).toBeUndefined();
+  });
+
+  it('appends, replaces and truncates a conversation per channel', async () => {
+    await store.append('ait:a', [makeUserMessage('m1', 'One')]);
+    await store.append('ait:a', [makeUserMessage('m2', 'Two'), makeUserMessage('m3', 'Three')]);
+    await store.replace('ait:b', []);
+
+    expect((await store.load('ait:a'))!.map((m) => m.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(await store.load('ait:b')).toEqual([]);
+
+    await store.truncate('ait:a', 1);
+    expect((await store.load('ait:a'))!.map((m) => m.id)).toEqual(['m1']);
+
+    await store.replace('ait:a', [makeUserMessage('m4', 'Four')]);
+    expect(await store.load('ait:a')).toEqual([makeUserMessage('m4', 'Four')]);
+  });
+
+  it('returns copies that callers can modify freely', async () => {
+    await store.replace('ait:a', [makeUserMessage('m1', 'One')]);
+
+    const loaded = await store.load('ait:a');
+    loaded!.push(makeUserMessage('m2', 'Two'));
+    loaded![0].id = 'changed';
+
+    expect(await store.load('ait:a')).toEqual([makeUserMessage('m1', 'One')]);
+  });
+});
+
+describe('fileConversationStore', () => {
+  it('keeps one JSON Lines file per channel that outlives the store', async () => {
+    const first = fileConversationStore({ directory });
+    await first.append('ait:chat/1', [makeUserMessage('m1', 'One')]);
+    await first.append('ait:chat/1', [makeUserMessage('m2', 'Two')]);
+
+    const contents = await readFile(join(directory, 'ait%3Achat%2F1.jsonl'), 'utf8');
+    expect(contents.trim().split('\n')).toHaveLength(2);
+
+    const second = fileConversationStore({ directory });
+    expect((await second.load('ait:chat/1'))!.map((m) => m.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('applies concurrent writes to a channel in order', async () => {
+    const store = fileConversationStore({ directory });
+
+    await Promise.all([
+      store.replace('ait:a', [makeUserMessage('m1', 'One'), makeUserMessage('m2', 'Two')]),
+      store.append('ait:a', [makeUserMessage('m3', 'Three')]),
+      store.truncate('ait:a', 2),
+      store.append('ait:a', [makeUserMessage('m4', 'Four')]),
+    ]);
+
+    expect((await store.load('ait:a'))!.map((m) => m.id)).toEqual(['m1', 'm2', 'm4']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { publishAndRespond } from '../../src/server/publishAndRespond.js';
+import { createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
+import { createChunkStream } from '../helpers/streamHelpers.js';
+import type { UIMessageChunk } from 'ai';
+
+/** Parse the `data:` events of an AI SDK UI message stream response. */
+async function readSseChunks(response: Response): Promise<UIMessageChunk[]> {
+  const body = await response.text();
+  return body
+    .split('\n\n')
+    .filter((event) => event.startsWith('data: ') && event !== 'data: [DONE]')
+    .map((event) => JSON.parse(event.slice(6)));
+}
+
+const generation: UIMessageChunk[] = [
+  { type: 'start' },
+  { type: 'start-step' },
+  { type: 'text-start', id: 't1' },
+  { type: 'text-delta', id: 't1', delta: 'Hello' },
+  { type: 'text-end', id: 't1' },
+  { type: 'finish-step' },
+  { type: 'finish', finishReason: 'stop' },
+];
+
+describe('publishAndRespond', () => {
+  let channel: ReturnType<typeof createMockChannel>;
+
+  beforeEach(() => {
+    resetSerialCounter();
+    channel = createMockChannel();
+  });
+
+  it('publishes to the channel and streams the same chunks in the response', async () => {
+    const { response, published } = publishAndRespond({
+      channel,
+      stream: createChunkStream(generation),
+      promptId: 'p1',
+    });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await readSseChunks(response)).toEqual(generation);
+    expect(await published).toEqual(generation);
+    expect(channel.publishCalls.map((c) => c.message.name)).toContain('finish');
+    expect(channel.appendCalls[0].message.data).toBe('Hello');
+  });
+
+  it('applies transformChunk once so both consumers see the transformed chunks', async () => {
+    let calls = 0;
+    const { response, published } = publishAndRespond({
+      channel,
+      stream: createChunkStream(generation),
+      transformChunk: (chunk) => {
+        calls++;
+        return chunk.type === 'text-delta' ? { ...chunk, delta: '[redacted]' } : chunk;
+      },
+    });
+
+    const sse = await readSseChunks(response);
+    await published;
+
+    expect(calls).toBe(generation.length);
+    expect(sse.find((c) => c.type === 'text-delta')).toMatchObject({ delta: '[redacted]' });
+    expect(channel.appendCalls[0].message.data).toBe('[redacted]');
+  });
+
+  it('still completes the response when publishing fails', async () => {
+    channel.publish = (() => Promise.reject(new Error('channel failed'))) as any;
+
+    const { response, published } = publishAndRespond({
+      channel,
+      stream: createChunkStream(generation),
+      responseInit: { status: 201 },
+    });
+
+    await expect(published).rejects.toThrow('channel failed');
+    expect(response.status).toBe(201);
+    expect(await readSseChunks(response)).toEqual(generation);
+  });
+});
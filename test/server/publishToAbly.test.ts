@@ -1,7 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { publishToAbly } from '../../src/server/publishToAbly.js';
 import { createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
 import { createChunkStream } from '../helpers/streamHelpers.js';
+import { gzipCodec } from '../../src/compression.js';
+import { aesGcmEncryption, decryptMessage } from '../../src/encryption.js';
+import { PROTOCOL_VERSION } from '../../src/protocol.js';
+import { noopLogger } from '../../src/logger.js';
+import { inMemoryCheckpointStore } from '../../src/server/checkpoints.js';
+import type { GenerationCheckpoint } from '../../src/server/checkpoints.js';
 import type { UIMessageChunk } from 'ai';
 
 describe('publishToAbly', () => {
@@ -432,7 +438,7 @@ describe('publishToAbly', () => {
       expect(dataCall).toBeDefined();
       expect(dataCall!.message.extras).toEqual({
         ephemeral: true,
-        headers: { role: 'assistant' },
+        headers: { role: 'assistant', protocolVersion: '1' },
       });
     });
   });
@@ -526,6 +532,1365 @@ describe('publishToAbly', () => {
     });
   });
 
+  describe('delta coalescing', () => {
+    it('merges consecutive text deltas into a single append before text-end', async () => {
+      const stream = createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'Hello' },
+        { type: 'text-delta', id: 'text-0', delta: ', ' },
+        { type: 'text-delta', id: 'text-0', delta: 'world!' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish-step' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, coalesce: {} });
+
+      expect(channel.appendCalls.map((c) => c.operation?.metadata?.event)).toEqual([
+        'text-delta',
+        'text-end',
+      ]);
+      expect(channel.appendCalls[0].message.data).toBe('Hello, world!');
+    });
+
+    it('coalesces reasoning and tool-input deltas per serial', async () => {
+      const stream = createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'reasoning-start', id: 'r-0' },
+        { type: 'reasoning-delta', id: 'r-0', delta: 'Let me ' },
+        { type: 'reasoning-delta', id: 'r-0', delta: 'think' },
+        { type: 'reasoning-end', id: 'r-0' },
+        { type: 'tool-input-start', toolCallId: 'call-1', toolName: 'search' },
+        { type: 'tool-input-delta', toolCallId: 'call-1', inputTextDelta: '{"q":' },
+        { type: 'tool-input-delta', toolCallId: 'call-1', inputTextDelta: '"ably"}' },
+        {
+          type: 'tool-input-available',
+          toolCallId: 'call-1',
+          toolName: 'search',
+          input: { q: 'ably' },
+        },
+        { type: 'finish-step' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, coalesce: {} });
+
+      expect(
+        channel.appendCalls.map((c) => [c.operation?.metadata?.event, c.message.data]),
+      ).toEqual([
+        ['reasoning-delta', 'Let me think'],
+        ['reasoning-end', ''],
+        ['tool-input-delta', '{"q":"ably"}'],
+        ['tool-input-end', ''],
+      ]);
+    });
+
+    it('flushes once the buffered size reaches maxBytes', async () => {
+      const stream = createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'aaaa' },
+        { type: 'text-delta', id: 'text-0', delta: 'bbbb' },
+        { type: 'text-delta', id: 'text-0', delta: 'cc' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish-step' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, coalesce: { maxBytes: 8 } });
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['aaaabbbb', 'cc', '']);
+    });
+
+    it('flushes buffered deltas after maxDelayMs without waiting for text-end', async () => {
+      let streamController!: ReadableStreamDefaultController<UIMessageChunk>;
+      const stream = new ReadableStream<UIMessageChunk>({
+        start(c) {
+          streamController = c;
+        },
+      });
+
+      const publishPromise = publishToAbly({ channel, stream, coalesce: { maxDelayMs: 10 } });
+
+      streamController.enqueue({ type: 'text-start', id: 'text-0' });
+      streamController.enqueue({ type: 'text-delta', id: 'text-0', delta: 'Hel' });
+      streamController.enqueue({ type: 'text-delta', id: 'text-0', delta: 'lo' });
+      await new Promise((r) => setTimeout(r, 40));
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['Hello']);
+
+      streamController.enqueue({ type: 'text-end', id: 'text-0' });
+      streamController.enqueue({ type: 'finish', finishReason: 'stop' });
+      streamController.close();
+      await publishPromise;
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['Hello', '']);
+    });
+
+    it('flushes buffered deltas before finish-step', async () => {
+      const order: string[] = [];
+      const origAppend = channel.appendMessage.bind(channel);
+      const origPublish = channel.publish.bind(channel);
+      channel.appendMessage = ((msg: any, op: any) => {
+        order.push(`append:${msg.data}`);
+        return origAppend(msg, op);
+      }) as any;
+      channel.publish = ((msg: any) => {
+        order.push(`publish:${msg.name.split(':')[0]}`);
+        return origPublish(msg);
+      }) as any;
+
+      const stream = createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'partial' },
+        { type: 'finish-step' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, coalesce: { maxDelayMs: 10_000 } });
+
+      expect(order).toEqual([
+        'publish:text',
+        'append:partial',
+        'publish:step-finish',
+        'publish:finish',
+      ]);
+    });
+
+    it('flushes buffered deltas before the error terminal', async () => {
+      const stream = createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'before error' },
+        { type: 'error', errorText: 'boom' },
+      ]);
+
+      await publishToAbly({ channel, stream, coalesce: { maxDelayMs: 10_000 } });
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['before error']);
+      expect(channel.publishCalls.map((c) => c.message.name)).toContain('error');
+    });
+
+    it('flushes buffered deltas before the abort terminal on signal abort', async () => {
+      const controller = new AbortController();
+      const stream = new ReadableStream<UIMessageChunk>({
+        start(c) {
+          c.enqueue({ type: 'text-start', id: 'text-0' });
+          c.enqueue({ type: 'text-delta', id: 'text-0', delta: 'cut short' });
+        },
+        pull() {
+          return new Promise<void>(() => {});
+        },
+      });
+
+      const publishPromise = publishToAbly({
+        channel,
+        stream,
+        abortSignal: controller.signal,
+        coalesce: { maxDelayMs: 10_000 },
+      });
+      await new Promise((r) => setTimeout(r, 10));
+      controller.abort();
+      await publishPromise;
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['cut short']);
+      const names = channel.publishCalls.map((c) => c.message.name);
+      expect(names[names.length - 1]).toBe('abort');
+    });
+  });
+
+  describe('bounded pending appends', () => {
+    function holdAppends() {
+      const resolvers: (() => void)[] = [];
+      const origAppend = channel.appendMessage.bind(channel);
+      channel.appendMessage = ((msg: any, op: any) => {
+        const result = origAppend(msg, op);
+        return new Promise<any>((resolve) => resolvers.push(() => resolve(result)));
+      }) as any;
+      return resolvers;
+    }
+
+    it('stops reading the stream while maxPendingAppends appends are in flight', async () => {
+      const resolvers = holdAppends();
+      let reads = 0;
+      const chunks: UIMessageChunk[] = [
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'a' },
+        { type: 'text-delta', id: 'text-0', delta: 'b' },
+        { type: 'text-delta', id: 'text-0', delta: 'c' },
+        { type: 'text-delta', id: 'text-0', delta: 'd' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ];
+      const stream = new ReadableStream<UIMessageChunk>(
+        {
+          pull(c) {
+            const next = chunks[reads++];
+            if (next) c.enqueue(next);
+            else c.close();
+          },
+        },
+        { highWaterMark: 0 },
+      );
+
+      const publishPromise = publishToAbly({ channel, stream, maxPendingAppends: 2 });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['a', 'b']);
+      expect(reads).toBe(3);
+
+      resolvers.shift()!();
+      await new Promise((r) => setTimeout(r, 20));
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['a', 'b', 'c']);
+
+      // Release everything, including appends issued while draining
+      const release = setInterval(() => resolvers.splice(0).forEach((r) => r()), 1);
+      await publishPromise;
+      clearInterval(release);
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['a', 'b', 'c', 'd', '']);
+      expect(channel.publishCalls.map((c) => c.message.name)).toContain('finish');
+    });
+
+    it('publishes error and rethrows when an in-flight append fails', async () => {
+      channel.appendMessage = (() => Promise.reject(new Error('append failed'))) as any;
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'a' },
+        { type: 'text-delta', id: 'text-0', delta: 'b' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await expect(publishToAbly({ channel, stream, maxPendingAppends: 1 })).rejects.toThrow(
+        'append failed',
+      );
+
+      const errorCall = channel.publishCalls.find((c) => c.message.name === 'error');
+      expect(JSON.parse(errorCall!.message.data).errorText).toBe('append failed');
+      expect(channel.publishCalls.map((c) => c.message.name)).not.toContain('finish');
+    });
+  });
+
+  describe('retry policy', () => {
+    function transientError() {
+      return Object.assign(new Error('service unavailable'), { statusCode: 503 });
+    }
+
+    it('retries a failed publish instead of publishing an error terminal', async () => {
+      const origPublish = channel.publish.bind(channel);
+      let failures = 1;
+      channel.publish = ((msg: any) => {
+        if (msg.name.startsWith('text:') && failures-- > 0) {
+          return Promise.reject(transientError());
+        }
+        return origPublish(msg);
+      }) as any;
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'Hi' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, retry: { initialDelayMs: 1 } });
+
+      const names = channel.publishCalls.map((c) => c.message.name);
+      expect(names).not.toContain('error');
+      expect(names).toContain('finish');
+    });
+
+    it('retries a failed update', async () => {
+      const origUpdate = channel.updateMessage.bind(channel);
+      let failures = 2;
+      channel.updateMessage = ((msg: any, op: any) =>
+        failures-- > 0 ? Promise.reject(transientError()) : origUpdate(msg, op)) as any;
+
+      const stream = createChunkStream([
+        { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'search', input: {} },
+        { type: 'tool-output-available', toolCallId: 'call-1', output: { ok: true } },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, retry: { initialDelayMs: 1 } });
+
+      expect(channel.updateCalls).toHaveLength(1);
+      expect(channel.updateCalls[0].message.name).toBe('tool-output:call-1');
+    });
+
+    it('keeps appends for a serial in order when one is retried', async () => {
+      const origAppend = channel.appendMessage.bind(channel);
+      let failFirst = true;
+      channel.appendMessage = ((msg: any, op: any) => {
+        if (failFirst && msg.data === 'one ') {
+          failFirst = false;
+          return new Promise((_, reject) => setTimeout(() => reject(transientError()), 5));
+        }
+        return origAppend(msg, op);
+      }) as any;
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'one ' },
+        { type: 'text-delta', id: 'text-0', delta: 'two ' },
+        { type: 'text-delta', id: 'text-0', delta: 'three' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, retry: { initialDelayMs: 1 } });
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['one ', 'two ', 'three', '']);
+    });
+
+    it('does not retry an append that may already have been applied', async () => {
+      let attempts = 0;
+      const origAppend = channel.appendMessage.bind(channel);
+      channel.appendMessage = ((msg: any, op: any) => {
+        if (msg.data === 'Hi') {
+          attempts++;
+          return Promise.reject(Object.assign(new Error('timed out'), { code: 80014 }));
+        }
+        return origAppend(msg, op);
+      }) as any;
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'Hi' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await expect(
+        publishToAbly({ channel, stream, retry: { initialDelayMs: 1 } }),
+      ).rejects.toThrow('timed out');
+
+      expect(attempts).toBe(1);
+      expect(channel.publishCalls.map((c) => c.message.name)).toContain('error');
+    });
+
+    it('sends a tool output only after the appends to its input', async () => {
+      const order: string[] = [];
+      const origAppend = channel.appendMessage.bind(channel);
+      channel.appendMessage = ((msg: any, op: any) =>
+        new Promise((resolve) => setTimeout(resolve, 20)).then(() => {
+          order.push(`append ${op.metadata.event}`);
+          return origAppend(msg, op);
+        })) as any;
+      const origUpdate = channel.updateMessage.bind(channel);
+      channel.updateMessage = ((msg: any, op: any) => {
+        order.push(`update ${msg.name}`);
+        return origUpdate(msg, op);
+      }) as any;
+
+      const stream = createChunkStream([
+        { type: 'tool-input-start', toolCallId: 'c1', toolName: 'search' },
+        { type: 'tool-input-delta', toolCallId: 'c1', inputTextDelta: '{}' },
+        { type: 'tool-input-available', toolCallId: 'c1', toolName: 'search', input: {} },
+        { type: 'tool-output-available', toolCallId: 'c1', output: { ok: true } },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, retry: {} });
+
+      expect(order).toEqual([
+        'append tool-input-delta',
+        'append tool-input-end',
+        'update tool-output:c1',
+      ]);
+    });
+
+    it('gives up on non-retryable errors and publishes an error terminal', async () => {
+      let attempts = 0;
+      const origPublish = channel.publish.bind(channel);
+      channel.publish = ((msg: any) => {
+        if (msg.name.startsWith('text:')) {
+          attempts++;
+          return Promise.reject(
+            Object.assign(new Error('unauthorized'), { statusCode: 401, code: 40160 }),
+          );
+        }
+        return origPublish(msg);
+      }) as any;
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await expect(
+        publishToAbly({ channel, stream, retry: { initialDelayMs: 1 } }),
+      ).rejects.toThrow('unauthorized');
+      expect(attempts).toBe(1);
+      expect(channel.publishCalls.map((c) => c.message.name)).toEqual(['error']);
+    });
+  });
+
+  describe('oversized payloads', () => {
+    it('splits an oversized data-* payload into ordered fragments before the carrier', async () => {
+      const big = 'x'.repeat(50);
+      const stream = createChunkStream([
+        { type: 'data-report', data: { big } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1', maxMessageSize: 20 });
+
+      const calls = channel.publishCalls.map((c) => c.message);
+      const fragments = calls.filter((m) => m.name === 'fragment');
+      const carrier = calls.find((m) => m.name === 'data-report')!;
+      expect(fragments.length).toBeGreaterThan(1);
+      expect(calls.indexOf(carrier)).toBe(fragments.length);
+      expect(fragments.every((m) => Buffer.byteLength(m.data) <= 20)).toBe(true);
+      expect(fragments.map((m) => m.data).join('')).toBe(JSON.stringify({ data: { big } }));
+
+      const fragmentId = carrier.extras.headers.fragmentId;
+      expect(carrier.data).toBe('');
+      expect(carrier.extras.headers.fragmentCount).toBe(String(fragments.length));
+      fragments.forEach((m, i) => {
+        expect(m.extras.headers).toMatchObject({
+          role: 'assistant',
+          promptId: 'p1',
+          fragmentId,
+          fragmentIndex: String(i),
+        });
+      });
+    });
+
+    it('sends payloads within maxMessageSize as a single message', async () => {
+      const stream = createChunkStream([
+        { type: 'data-report', data: { small: true } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream });
+
+      const names = channel.publishCalls.map((c) => c.message.name);
+      expect(names).toEqual(['data-report', 'finish']);
+      expect(channel.publishCalls[0].message.extras.headers.fragmentId).toBeUndefined();
+    });
+
+    it('fragments oversized tool output and updates the tool message as the carrier', async () => {
+      const stream = createChunkStream([
+        { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'search', input: {} },
+        { type: 'tool-output-available', toolCallId: 'call-1', output: 'y'.repeat(100) },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, maxMessageSize: 32 });
+
+      const fragments = channel.publishCalls.filter((c) => c.message.name === 'fragment');
+      const update = channel.updateCalls[0].message;
+      expect(update.name).toBe('tool-output:call-1');
+      expect(update.data).toBe('');
+      expect(update.extras.headers.fragmentCount).toBe(String(fragments.length));
+      expect(fragments.map((c) => c.message.data).join('')).toBe(
+        JSON.stringify({ output: 'y'.repeat(100) }),
+      );
+    });
+
+    it('marks fragments of transient data parts as ephemeral', async () => {
+      const stream = createChunkStream([
+        { type: 'data-progress', data: 'z'.repeat(40), transient: true } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, maxMessageSize: 16 });
+
+      const messages = channel.publishCalls
+        .map((c) => c.message)
+        .filter((m) => m.name !== 'finish');
+      expect(messages.length).toBeGreaterThan(2);
+      expect(messages.every((m) => m.extras.ephemeral === true)).toBe(true);
+    });
+
+    it('never splits a multi-byte character across fragments', async () => {
+      const url = 'data:text/plain,' + '€😀'.repeat(10);
+      const stream = createChunkStream([
+        { type: 'file', url, mediaType: 'text/plain' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, maxMessageSize: 9 });
+
+      const fragments = channel.publishCalls.filter((c) => c.message.name === 'fragment');
+      for (const { message } of fragments) {
+        expect(Buffer.byteLength(message.data)).toBeLessThanOrEqual(9);
+        expect(message.data).not.toMatch(/[\uD800-\uDBFF]$/);
+      }
+      expect(JSON.parse(fragments.map((c) => c.message.data).join('')).url).toBe(url);
+    });
+  });
+
+  describe('compression', () => {
+    it('compresses payloads above the threshold and names the codec in a header', async () => {
+      const output = 'repetitive '.repeat(200);
+      const stream = createChunkStream([
+        { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'search', input: {} },
+        { type: 'tool-output-available', toolCallId: 'call-1', output },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, compression: {} });
+
+      const update = channel.updateCalls[0].message;
+      expect(update.extras.headers.compression).toBe('gzip');
+      expect(update.data.length).toBeLessThan(output.length);
+      expect(await gzipCodec.decompress(update.data)).toBe(JSON.stringify({ output }));
+    });
+
+    it('leaves payloads below the threshold, text deltas and lifecycle events uncompressed', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'a'.repeat(2000) },
+        { type: 'text-end', id: 't1' },
+        { type: 'data-report', data: { small: true } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, compression: {} });
+
+      const headers = [
+        ...channel.publishCalls.map((c) => c.message.extras.headers),
+        ...channel.appendCalls.map((c) => c.message.extras?.headers ?? {}),
+      ];
+      expect(headers.every((h) => h.compression === undefined)).toBe(true);
+    });
+
+    it('sends the payload as is when compression would not make it smaller', async () => {
+      const stream = createChunkStream([
+        { type: 'data-noise', data: 'abcdefghijklmnopqrstuvwxyz' } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, compression: { threshold: 10 } });
+
+      const message = channel.publishCalls[0].message;
+      expect(message.extras.headers.compression).toBeUndefined();
+      expect(message.data).toBe(JSON.stringify({ data: 'abcdefghijklmnopqrstuvwxyz' }));
+    });
+
+    it('sends an oversized payload whole once compression brings it under maxMessageSize', async () => {
+      const big = 'z'.repeat(5000);
+      const stream = createChunkStream([
+        { type: 'data-report', data: { big } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({
+        channel,
+        stream,
+        maxMessageSize: 2000,
+        compression: { threshold: 100 },
+      });
+
+      const calls = channel.publishCalls.map((c) => c.message);
+      expect(calls.map((m) => m.name)).toEqual(['data-report', 'finish']);
+      expect(calls[0].extras.headers.compression).toBe('gzip');
+      expect(await gzipCodec.decompress(calls[0].data)).toBe(JSON.stringify({ data: { big } }));
+    });
+
+    it('splits a payload still too large once compressed, compressed as a whole', async () => {
+      // Random text barely compresses
+      const randomChar = () => Math.random().toString(36).slice(2, 3);
+      const big = Array.from({ length: 6000 }, randomChar).join('');
+      const stream = createChunkStream([
+        { type: 'data-report', data: { big } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({
+        channel,
+        stream,
+        maxMessageSize: 2000,
+        compression: { threshold: 100 },
+      });
+
+      const calls = channel.publishCalls.map((c) => c.message);
+      const fragments = calls.filter((m) => m.name === 'fragment');
+      const carrier = calls.find((m) => m.name === 'data-report')!;
+      expect(fragments.length).toBeGreaterThan(1);
+      expect(fragments.every((m) => m.extras.headers.compression === undefined)).toBe(true);
+      expect(carrier.extras.headers.compression).toBe('gzip');
+      expect(carrier.extras.headers.fragmentCount).toBe(String(fragments.length));
+
+      const whole = fragments.map((m) => m.data).join('');
+      expect(await gzipCodec.decompress(whole)).toBe(JSON.stringify({ data: { big } }));
+    });
+
+    it('uses a custom codec', async () => {
+      const codec = {
+        name: 'stub',
+        compress: async () => 'packed',
+        decompress: async () => '',
+      };
+      const stream = createChunkStream([
+        { type: 'data-report', data: { text: 'x'.repeat(50) } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, compression: { codec, threshold: 10 } });
+
+      const message = channel.publishCalls[0].message;
+      expect(message.data).toBe('packed');
+      expect(message.extras.headers.compression).toBe('stub');
+    });
+  });
+
+  describe('encryption', () => {
+    const encryption = aesGcmEncryption(btoa('0123456789abcdef0123456789abcdef'));
+
+    it('encrypts data and sensitive headers but leaves routing headers readable', async () => {
+      const stream = createChunkStream([
+        {
+          type: 'tool-input-available',
+          toolCallId: 'call-1',
+          toolName: 'search',
+          input: { query: 'secret' },
+          title: 'Private search',
+        } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1', encryption });
+
+      const message = channel.publishCalls[0].message;
+      expect(message.name).toBe('tool:call-1:search');
+      expect(message.data).not.toContain('secret');
+      expect(message.extras.headers).toMatchObject({
+        role: 'assistant',
+        promptId: 'p1',
+        event: 'tool-input-available',
+        encrypted: 'true',
+      });
+      expect(message.extras.headers.title).not.toBe('Private search');
+
+      const decrypted = await decryptMessage(message, encryption);
+      expect(decrypted.data).toBe(JSON.stringify({ query: 'secret' }));
+      expect(decrypted.extras.headers.title).toBe('Private search');
+      expect(decrypted.extras.headers.encrypted).toBeUndefined();
+    });
+
+    it('keeps appends in order so the concatenated ciphertext decrypts to the full text', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'Hello' },
+        { type: 'text-delta', id: 't1', delta: ', ' },
+        { type: 'text-delta', id: 't1', delta: 'world' },
+        { type: 'text-end', id: 't1' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, encryption });
+
+      const create = channel.publishCalls[0].message;
+      const appended = channel.appendCalls.map((c) => c.message.data).join('');
+      const decrypted = await decryptMessage(
+        { ...create, data: create.data + appended } as any,
+        encryption,
+      );
+      expect(decrypted.data).toBe('Hello, world');
+      expect(channel.appendCalls.map((c) => c.operation?.metadata?.event)).toEqual([
+        'text-delta',
+        'text-delta',
+        'text-delta',
+        'text-end',
+      ]);
+    });
+  });
+
+  describe('protocol version', () => {
+    it('stamps every published, appended and updated message with the protocol version', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'Hi' },
+        { type: 'text-end', id: 't1' },
+        { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'search', input: {} },
+        { type: 'tool-output-available', toolCallId: 'call-1', output: 'ok' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream });
+
+      const messages = [
+        ...channel.publishCalls.map((c) => c.message),
+        ...channel.appendCalls.map((c) => c.message),
+        ...channel.updateCalls.map((c) => c.message),
+      ];
+      expect(messages).toHaveLength(6);
+      for (const message of messages) {
+        expect(message.extras?.headers?.protocolVersion).toBe(String(PROTOCOL_VERSION));
+      }
+    });
+  });
+
+  describe('transformChunk', () => {
+    const redact = (chunk: UIMessageChunk): UIMessageChunk =>
+      chunk.type === 'text-delta'
+        ? { ...chunk, delta: chunk.delta.replace(/\d{3}-\d{4}/g, '[redacted]') }
+        : chunk;
+
+    it('publishes the transformed chunk and returns the transformed chunks', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'Call 555-1234' },
+        { type: 'text-end', id: 't1' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      const chunks = await publishToAbly({ channel, stream, transformChunk: redact });
+
+      expect(channel.appendCalls[0].message.data).toBe('Call [redacted]');
+      expect(chunks[1]).toEqual({ type: 'text-delta', id: 't1', delta: 'Call [redacted]' });
+    });
+
+    it('drops chunks for which the transform returns null', async () => {
+      const stream = createChunkStream([
+        { type: 'source-url', sourceId: 's1', url: 'https://internal.example' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({
+        channel,
+        stream,
+        transformChunk: (chunk) => (chunk.type === 'source-url' ? null : chunk),
+      });
+
+      expect(channel.publishCalls.map((c) => c.message.name)).toEqual(['finish']);
+    });
+
+    it('splits a chunk into several and runs an array of transforms as a chain', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'ab' },
+        { type: 'text-end', id: 't1' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({
+        channel,
+        stream,
+        transformChunk: [
+          (chunk) =>
+            chunk.type === 'text-delta'
+              ? [...chunk.delta].map((delta) => ({ ...chunk, delta }))
+              : chunk,
+          async (chunk) =>
+            chunk.type === 'text-delta' ? { ...chunk, delta: chunk.delta.toUpperCase() } : chunk,
+        ],
+      });
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['A', 'B', '']);
+    });
+
+    it('publishes an error terminal when a transform throws', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await expect(
+        publishToAbly({
+          channel,
+          stream,
+          transformChunk: (chunk) => {
+            if (chunk.type === 'finish') throw new Error('redaction failed');
+            return chunk;
+          },
+        }),
+      ).rejects.toThrow('redaction failed');
+
+      const last = channel.publishCalls.at(-1)!.message;
+      expect(last.name).toBe('error');
+      expect(JSON.parse(last.data)).toEqual({ errorText: 'redaction failed' });
+    });
+  });
+
+  describe('onStats', () => {
+    it('reports counts, bytes, timings and the terminal for a generation', async () => {
+      const onStats = vi.fn();
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'Héllo' },
+        { type: 'text-end', id: 't1' },
+        { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'search', input: {} },
+        { type: 'tool-output-available', toolCallId: 'call-1', output: 'ok' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, onStats });
+
+      expect(onStats).toHaveBeenCalledOnce();
+      const stats = onStats.mock.calls[0][0];
+      const sent = [
+        ...channel.publishCalls.map((c) => c.message),
+        ...channel.appendCalls.map((c) => c.message),
+        ...channel.updateCalls.map((c) => c.message),
+      ];
+      expect(stats).toMatchObject({
+        publishes: 3,
+        appends: 2,
+        updates: 1,
+        bytesSent: sent.reduce((n, m) => n + Buffer.byteLength(m.data ?? ''), 0),
+        retries: 0,
+        terminalReason: 'finish',
+      });
+      expect(stats.timeToFirstPublishMs).toBeGreaterThanOrEqual(0);
+      expect(stats.durationMs).toBeGreaterThanOrEqual(stats.timeToFirstPublishMs);
+    });
+
+    it('counts retries', async () => {
+      const onStats = vi.fn();
+      const origPublish = channel.publish.bind(channel);
+      let failures = 2;
+      channel.publish = ((msg: any) =>
+        failures-- > 0
+          ? Promise.reject(Object.assign(new Error('unavailable'), { statusCode: 503 }))
+          : origPublish(msg)) as any;
+
+      const stream = createChunkStream([{ type: 'finish', finishReason: 'stop' }]);
+      await publishToAbly({ channel, stream, retry: { initialDelayMs: 1 }, onStats });
+
+      expect(onStats.mock.calls[0][0]).toMatchObject({ publishes: 1, retries: 2 });
+    });
+
+    it('reports an error terminal when the stream fails', async () => {
+      const onStats = vi.fn();
+      const stream = new ReadableStream<UIMessageChunk>({
+        start(controller) {
+          controller.error(new Error('model failed'));
+        },
+      });
+
+      await expect(publishToAbly({ channel, stream, onStats })).rejects.toThrow('model failed');
+
+      expect(onStats.mock.calls[0][0]).toMatchObject({ publishes: 1, terminalReason: 'error' });
+    });
+
+    it('reports an abort terminal, and no first publish for an empty generation', async () => {
+      const onStats = vi.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      await publishToAbly({
+        channel,
+        stream: createChunkStream([]),
+        abortSignal: controller.signal,
+        onStats,
+      });
+      await publishToAbly({ channel, stream: createChunkStream([]), onStats });
+
+      expect(onStats.mock.calls[0][0].terminalReason).toBe('abort');
+      expect(onStats.mock.calls[1][0]).toMatchObject({
+        publishes: 0,
+        timeToFirstPublishMs: null,
+        terminalReason: null,
+      });
+    });
+
+    it('does not fail the generation when the callback throws', async () => {
+      const stream = createChunkStream([{ type: 'finish', finishReason: 'stop' }]);
+
+      await expect(
+        publishToAbly({
+          channel,
+          stream,
+          onStats: () => {
+            throw new Error('dashboard down');
+          },
+        }),
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('mirrors', () => {
+    const generation = (): UIMessageChunk[] => [
+      { type: 'reasoning-start', id: 'r1' },
+      { type: 'reasoning-delta', id: 'r1', delta: 'Thinking' },
+      { type: 'reasoning-end', id: 'r1' },
+      { type: 'text-start', id: 't1' },
+      { type: 'text-delta', id: 't1', delta: 'Hi' },
+      { type: 'text-end', id: 't1' },
+      { type: 'data-status', data: { step: 1 }, transient: true } as any,
+      { type: 'finish', finishReason: 'stop' },
+    ];
+
+    it('publishes the generation to each mirror with its own serials', async () => {
+      const audit = createMockChannel();
+
+      await publishToAbly({
+        channel,
+        stream: createChunkStream(generation()),
+        promptId: 'p1',
+        mirrors: [{ channel: audit }],
+      });
+
+      const names = (ch: typeof channel) =>
+        ch.publishCalls.map((c) => c.message.name.split(':')[0]);
+      expect(names(audit)).toEqual(names(channel));
+      expect(audit.publishCalls.at(-1)!.message.extras.headers.promptId).toBe('p1');
+
+      const auditText = audit.appendCalls.find((c) => c.message.data === 'Hi')!;
+      const primaryText = channel.appendCalls.find((c) => c.message.data === 'Hi')!;
+      expect(auditText.message.serial).not.toBe(primaryText.message.serial);
+    });
+
+    it('skips outputs for tool calls of the continued message that mirrors never published', async () => {
+      const audit = createMockChannel();
+
+      await publishToAbly({
+        channel,
+        stream: createChunkStream([
+          { type: 'start' },
+          { type: 'tool-output-available', toolCallId: 'c1', output: { ok: true } },
+          { type: 'tool-output-denied', toolCallId: 'c2' } as any,
+          ...generation(),
+        ]),
+        toolCalls: { c1: 'serial-1', c2: 'serial-2' },
+        mirrors: [{ channel: audit }],
+      });
+
+      expect(channel.updateCalls).toHaveLength(2);
+      expect(audit.updateCalls).toHaveLength(0);
+      expect(audit.publishCalls.map((c) => c.message.name)).not.toContain('error');
+      expect(audit.publishCalls.at(-1)!.message.name).toBe('finish');
+    });
+
+    it('applies per-mirror options such as omitReasoning and transientOnly', async () => {
+      const audit = createMockChannel();
+      const supervisor = createMockChannel();
+
+      await publishToAbly({
+        channel,
+        stream: createChunkStream(generation()),
+        mirrors: [
+          { channel: audit, omitReasoning: true },
+          { channel: supervisor, transientOnly: true },
+        ],
+      });
+
+      const names = (ch: typeof channel) =>
+        ch.publishCalls.map((c) => c.message.name.split(':')[0]);
+      expect(names(channel)).toEqual(['reasoning', 'text', 'data-status', 'finish']);
+      expect(names(audit)).toEqual(['text', 'data-status', 'finish']);
+      expect(names(supervisor)).toEqual(['data-status']);
+      expect(supervisor.publishCalls[0].message.extras.ephemeral).toBe(true);
+    });
+
+    it('does not let a failing mirror affect the primary channel', async () => {
+      const broken = createMockChannel();
+      broken.publish = (() => Promise.reject(new Error('mirror down'))) as any;
+      const warn = vi.fn();
+
+      const chunks = await publishToAbly({
+        channel,
+        stream: createChunkStream(generation()),
+        mirrors: [{ channel: broken }],
+        logger: { ...noopLogger, warn },
+      });
+
+      expect(chunks).toHaveLength(generation().length);
+      expect(channel.publishCalls.map((c) => c.message.name)).toContain('finish');
+      expect(warn).toHaveBeenCalledWith(
+        '[publish] mirror to test-channel failed:',
+        expect.objectContaining({ message: 'mirror down' }),
+      );
+    });
+    it('reads the stream only as fast as the primary channel takes it under maxPendingAppends', async () => {
+      const audit = createMockChannel();
+      const resolvers: (() => void)[] = [];
+      const origAppend = channel.appendMessage.bind(channel);
+      channel.appendMessage = ((msg: any, op: any) => {
+        const result = origAppend(msg, op);
+        return new Promise<any>((resolve) => resolvers.push(() => resolve(result)));
+      }) as any;
+      let reads = 0;
+      const chunks: UIMessageChunk[] = [
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'a' },
+        { type: 'text-delta', id: 'text-0', delta: 'b' },
+        { type: 'text-delta', id: 'text-0', delta: 'c' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ];
+      const stream = new ReadableStream<UIMessageChunk>(
+        {
+          pull(c) {
+            const next = chunks[reads++];
+            if (next) c.enqueue(next);
+            else c.close();
+          },
+        },
+        { highWaterMark: 0 },
+      );
+
+      const publishPromise = publishToAbly({
+        channel,
+        stream,
+        maxPendingAppends: 1,
+        mirrors: [{ channel: audit }],
+      });
+      await new Promise((r) => setTimeout(r, 20));
+
+      // The mirror is not read ahead of the paused primary
+      expect(reads).toBe(2);
+      expect(audit.appendCalls.map((c) => c.message.data)).toEqual(['a']);
+
+      const release = setInterval(() => resolvers.splice(0).forEach((r) => r()), 1);
+      await publishPromise;
+      clearInterval(release);
+
+      expect(audit.appendCalls.map((c) => c.message.data)).toEqual(['a', 'b', 'c', '']);
+    });
+
+    it('keeps mirroring the rest of the stream after the primary channel fails', async () => {
+      const audit = createMockChannel();
+      channel.appendMessage = (() => Promise.reject(new Error('append failed'))) as any;
+
+      await expect(
+        publishToAbly({
+          channel,
+          stream: createChunkStream(generation()),
+          mirrors: [{ channel: audit }],
+        }),
+      ).rejects.toThrow('append failed');
+
+      expect(audit.publishCalls.map((c) => c.message.name)).toContain('finish');
+    });
+  });
+
+  describe('REST channels', () => {
+    /** A REST-like channel: no attach(), and each append takes a while to complete. */
+    function restChannel() {
+      const { attach: _attach, ...rest } = channel as any;
+      const origAppend = channel.appendMessage.bind(channel);
+      let inFlight = 0;
+      let maxInFlight = 0;
+      rest.appendMessage = async (msg: any, op: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((r) => setTimeout(r, 5));
+        inFlight--;
+        return origAppend(msg, op);
+      };
+      return { rest, maxInFlight: () => maxInFlight };
+    }
+
+    it('publishes the same wire format and sends appends for a serial one at a time', async () => {
+      const { rest, maxInFlight } = restChannel();
+      const stream = createChunkStream([
+        { type: 'text-start', id: 't1' },
+        { type: 'text-delta', id: 't1', delta: 'a' },
+        { type: 'text-delta', id: 't1', delta: 'b' },
+        { type: 'text-delta', id: 't1', delta: 'c' },
+        { type: 'text-end', id: 't1' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel: rest, stream, promptId: 'p1' });
+
+      expect(maxInFlight()).toBe(1);
+      const serial = channel.appendCalls[0].message.serial;
+      expect(channel.appendCalls.map((c) => [c.message.serial, c.message.data])).toEqual([
+        [serial, 'a'],
+        [serial, 'b'],
+        [serial, 'c'],
+        [serial, ''],
+      ]);
+      expect(channel.publishCalls.map((c) => c.message.name)).toEqual([
+        expect.stringMatching(/^text:/),
+        'finish',
+      ]);
+    });
+  });
+
+  describe('idempotent publishing', () => {
+    it('derives message ids from the promptId, chunk ordinal and part id', async () => {
+      const stream = createChunkStream([
+        { type: 'start', messageId: 'msg-1' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'Hi' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'tool-input-available', toolCallId: 'call-1', toolName: 'search', input: {} },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1' });
+
+      expect(channel.publishCalls.map((c) => c.message.id)).toEqual([
+        'p1:1:start',
+        'p1:2:text:text-0',
+        'p1:5:tool:call-1:search',
+        'p1:6:finish',
+      ]);
+    });
+
+    it('produces the same ids and part names when a generation is published again', async () => {
+      const chunks: UIMessageChunk[] = [
+        { type: 'reasoning-start', id: 'r1' },
+        { type: 'reasoning-end', id: 'r1' },
+        { type: 'data-status', data: { step: 1 } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ];
+
+      await publishToAbly({ channel, stream: createChunkStream(chunks), promptId: 'p1' });
+      const first = channel.publishCalls.map((c) => c.message.id);
+      const firstNames = channel.publishCalls.map((c) => c.message.name);
+      channel.publishCalls.length = 0;
+      await publishToAbly({ channel, stream: createChunkStream(chunks), promptId: 'p1' });
+
+      expect(channel.publishCalls.map((c) => c.message.id)).toEqual(first);
+      expect(new Set(first).size).toBe(first.length);
+      // Clients recognise the republished part by its name
+      expect(channel.publishCalls.map((c) => c.message.name)).toEqual(firstNames);
+      expect(firstNames[0]).toBe('reasoning:p1:1:r1');
+    });
+
+    it('gives each fragment of an oversized payload its own id', async () => {
+      const stream = createChunkStream([{ type: 'data-blob', data: 'x'.repeat(40) } as any]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1', maxMessageSize: 30 });
+
+      expect(channel.publishCalls.map((c) => c.message.id)).toEqual([
+        'p1:1:fragment:0',
+        'p1:1:fragment:1',
+        'p1:1:data-blob',
+      ]);
+    });
+
+    it('reuses the id when a publish is retried', async () => {
+      const origPublish = channel.publish.bind(channel);
+      const attempts: string[] = [];
+      channel.publish = ((msg: any) => {
+        attempts.push(msg.id);
+        if (attempts.length === 1) {
+          return Promise.reject(Object.assign(new Error('timeout'), { statusCode: 503 }));
+        }
+        return origPublish(msg);
+      }) as any;
+
+      const stream = createChunkStream([{ type: 'finish', finishReason: 'stop' }]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1', retry: { initialDelayMs: 1 } });
+
+      expect(attempts).toEqual(['p1:1:finish', 'p1:1:finish']);
+    });
+
+    it('leaves ids to Ably without a promptId', async () => {
+      const stream = createChunkStream([{ type: 'finish', finishReason: 'stop' }]);
+
+      await publishToAbly({ channel, stream });
+
+      expect(channel.publishCalls[0].message.id).toBeUndefined();
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('checkpoints open serials and position after each chunk, and deletes the checkpoint at the end', async () => {
+      const store = inMemoryCheckpointStore();
+      const saved: GenerationCheckpoint[] = [];
+      const save = store.save;
+      store.save = (checkpoint) => {
+        saved.push(checkpoint);
+        return save(checkpoint);
+      };
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'Hi' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1', checkpoints: store });
+
+      const serial = channel.appendCalls[0].message.serial;
+      expect(saved.map((c) => [c.position, c.serials])).toEqual([
+        [0, {}],
+        [1, { 'text-0': { serial, type: 'text', name: channel.publishCalls[0].message.name } }],
+        [2, { 'text-0': { serial, type: 'text', name: channel.publishCalls[0].message.name } }],
+        [3, {}],
+      ]);
+      expect(saved[0]).toMatchObject({ channelName: channel.name, promptId: 'p1' });
+      expect(await store.list(channel.name)).toEqual([]);
+    });
+
+    it('only counts deltas in the position once their appends are accepted', async () => {
+      const store = inMemoryCheckpointStore();
+      const resolvers: (() => void)[] = [];
+      const origAppend = channel.appendMessage.bind(channel);
+      channel.appendMessage = ((msg: any, op: any) => {
+        const result = origAppend(msg, op);
+        return new Promise<any>((resolve) => resolvers.push(() => resolve(result)));
+      }) as any;
+      const chunks: UIMessageChunk[] = [
+        { type: 'start' },
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'Hello' },
+        { type: 'text-delta', id: 'text-0', delta: ' world' },
+      ];
+      let reads = 0;
+      let finish = () => {};
+      const stream = new ReadableStream<UIMessageChunk>(
+        {
+          pull(c) {
+            if (reads < chunks.length) c.enqueue(chunks[reads++]);
+            else finish = () => c.close();
+          },
+        },
+        { highWaterMark: 0 },
+      );
+
+      const publishPromise = publishToAbly({ channel, stream, promptId: 'p1', checkpoints: store });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['Hello', ' world']);
+      expect((await store.load(channel.name, 'p1'))!.position).toBe(2);
+
+      resolvers.splice(0).forEach((r) => r());
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect((await store.load(channel.name, 'p1'))!.position).toBe(4);
+      finish();
+      await publishPromise;
+    });
+
+    it('keeps the checkpoint when the generation is left open', async () => {
+      const store = inMemoryCheckpointStore();
+      const origPublish = channel.publish.bind(channel);
+      channel.publish = ((msg: any) =>
+        msg.name.startsWith('text:')
+          ? origPublish(msg)
+          : Promise.reject(new Error('connection lost'))) as any;
+
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await expect(
+        publishToAbly({ channel, stream, promptId: 'p1', checkpoints: store }),
+      ).rejects.toThrow('connection lost');
+
+      const [checkpoint] = await store.list(channel.name);
+      expect(checkpoint).toMatchObject({
+        promptId: 'p1',
+        position: 1,
+        serials: { 'text-0': { type: 'text' } },
+      });
+    });
+
+    it('does not fail the generation when a checkpoint cannot be saved', async () => {
+      const store = inMemoryCheckpointStore();
+      store.save = () => Promise.reject(new Error('store unavailable'));
+
+      const stream = createChunkStream([{ type: 'finish', finishReason: 'stop' }]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1', checkpoints: store });
+
+      expect(channel.publishCalls.map((c) => c.message.name)).toEqual(['finish']);
+    });
+
+    it('resumes appending to the serials of a checkpoint', async () => {
+      const resume: GenerationCheckpoint = {
+        channelName: channel.name,
+        promptId: 'p1',
+        serials: { 'text-0': { serial: 'serial-open', type: 'text', name: 'text:t0' } },
+        position: 4,
+        updatedAt: Date.now(),
+      };
+
+      const stream = createChunkStream([
+        { type: 'text-delta', id: 'text-0', delta: ' world' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, resume });
+
+      expect(channel.appendCalls.map((c) => [c.message.serial, c.message.data])).toEqual([
+        ['serial-open', ' world'],
+        ['serial-open', ''],
+      ]);
+      expect(channel.publishCalls[0].message).toMatchObject({
+        id: 'p1:7:finish',
+        extras: { headers: { promptId: 'p1' } },
+      });
+    });
+  });
+
+  describe('rewrites', () => {
+    it('rewrites a finished text part in place on a data-rewrite chunk', async () => {
+      const stream = createChunkStream([
+        { type: 'text-start', id: 'text-0' },
+        { type: 'text-delta', id: 'text-0', delta: 'secret: hunter2' },
+        { type: 'text-end', id: 'text-0' },
+        { type: 'data-rewrite', data: { id: 'text-0', text: 'secret: [redacted]' } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, promptId: 'p1' });
+
+      const create = channel.publishCalls[0].message;
+      expect(channel.updateCalls).toEqual([
+        {
+          message: {
+            serial: channel.appendCalls[0].message.serial,
+            name: create.name,
+            data: 'secret: [redacted]',
+            extras: create.extras,
+          },
+          operation: { metadata: { event: 'text-rewrite' } },
+        },
+      ]);
+      expect(channel.publishCalls.map((c) => c.message.name)).not.toContain('data-rewrite');
+    });
+
+    it('skips rewrites of reasoning on mirrors that omit reasoning', async () => {
+      const audit = createMockChannel();
+      const stream = createChunkStream([
+        { type: 'reasoning-start', id: 'r-0' },
+        { type: 'reasoning-end', id: 'r-0' },
+        { type: 'data-rewrite', data: { id: 'r-0', text: 'masked' } } as any,
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+      const warn = vi.fn();
+
+      await publishToAbly({
+        channel,
+        stream,
+        mirrors: [{ channel: audit, omitReasoning: true }],
+        logger: { ...noopLogger, warn },
+      });
+
+      expect(channel.updateCalls).toHaveLength(1);
+      expect(audit.updateCalls).toEqual([]);
+      expect(audit.publishCalls.map((c) => c.message.name)).toEqual(['finish']);
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('fails the generation when the part to rewrite has not finished', async () => {
+      const stream = createChunkStream([
+        { type: 'reasoning-start', id: 'r-0' },
+        { type: 'data-rewrite', data: { id: 'r-0', text: 'masked' } } as any,
+      ]);
+
+      await expect(publishToAbly({ channel, stream })).rejects.toThrow(
+        'No finished text or reasoning part r-0 to rewrite',
+      );
+      expect(channel.updateCalls).toEqual([]);
+    });
+  });
+
   describe('abort signal handling', () => {
     it('publishes abort on signal abort mid-step', async () => {
       const controller = new AbortController();
@@ -749,7 +2114,7 @@ describe('publishToAbly', () => {
       expect(dataCall).toBeDefined();
       expect(dataCall!.message.extras).toEqual({
         ephemeral: true,
-        headers: { role: 'assistant', promptId: 'prompt-data' },
+        headers: { role: 'assistant', protocolVersion: '1', promptId: 'prompt-data' },
       });
     });
   });
@@ -791,6 +2156,25 @@ describe('publishToAbly', () => {
       expect(deniedCall).toBeDefined();
       expect(JSON.parse(deniedCall!.message.data)).toEqual({});
     });
+
+    it('updates tool calls of the continued message through toolCalls', async () => {
+      const stream = createChunkStream([
+        { type: 'start' },
+        { type: 'start-step' },
+        { type: 'tool-output-available', toolCallId: 'c1', output: { ok: true } },
+        { type: 'tool-output-denied', toolCallId: 'c2' } as any,
+        { type: 'finish-step' },
+        { type: 'finish', finishReason: 'stop' },
+      ]);
+
+      await publishToAbly({ channel, stream, toolCalls: { c1: 'serial-1', c2: 'serial-2' } });
+
+      expect(channel.updateCalls.map((c) => [c.message.serial, c.message.name])).toEqual([
+        ['serial-1', 'tool-output:c1'],
+        ['serial-2', 'tool-denied:c2'],
+      ]);
+      expect(channel.publishCalls.find((c) => c.message.name === 'error')).toBeUndefined();
+    });
   });
 
   describe('optional field forwarding', () => {
@@ -914,6 +2298,24 @@ describe('publishToAbly', () => {
   });
 
   describe('error handling', () => {
+    it('cancels the stream when publishing fails', async () => {
+      const cancel = vi.fn();
+      const stream = new ReadableStream<UIMessageChunk>(
+        {
+          pull(c) {
+            c.enqueue({ type: 'text-start', id: 'text-0' });
+          },
+          cancel,
+        },
+        { highWaterMark: 0 },
+      );
+      channel.publish = (() => Promise.reject(new Error('publish failed'))) as any;
+
+      await expect(publishToAbly({ channel, stream })).rejects.toThrow('publish failed');
+
+      expect(cancel).toHaveBeenCalledWith(expect.objectContaining({ message: 'publish failed' }));
+    });
+
     it('publishes error to channel on stream read error', async () => {
       const errorStream = new ReadableStream<UIMessageChunk>({
         start(controller) {
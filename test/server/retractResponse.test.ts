@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { retractResponse } from '../../src/server/retractResponse.js';
+import { reconstructMessages } from '../../src/shared.js';
+import { createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
+
+describe('retractResponse', () => {
+  let channel: ReturnType<typeof createMockChannel>;
+
+  const assistant = (promptId: string) => ({
+    headers: { role: 'assistant', protocolVersion: '1', promptId },
+  });
+
+  beforeEach(async () => {
+    resetSerialCounter();
+    channel = createMockChannel();
+    await channel.publish({
+      name: 'chat-message',
+      data: JSON.stringify({
+        message: { id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Hi' }] },
+      }),
+      extras: { headers: { role: 'user', protocolVersion: '1', promptId: 'p1' } },
+    });
+    await channel.publish({
+      name: 'start',
+      data: JSON.stringify({ messageId: 'm1' }),
+      extras: assistant('p1'),
+    });
+    await channel.publish({ name: 'text:t0', data: 'Hello', extras: assistant('p1') });
+    await channel.publish({
+      name: 'tool:c1:search',
+      data: '{"q":"x"}',
+      extras: assistant('p1'),
+    });
+    await channel.publish({ name: 'finish', data: '{}', extras: assistant('p1') });
+    await channel.publish({ name: 'text:t9', data: 'Other', extras: assistant('p2') });
+  });
+
+  it('deletes the content messages of a prompt, keeping lifecycle messages', async () => {
+    const deleted = await retractResponse({ channel, promptId: 'p1', reason: 'policy' });
+
+    expect(deleted).toBe(2);
+    expect(channel.deleteCalls.map((c) => c.message.serial).sort()).toEqual(
+      channel.publishedMessages
+        .filter((m) => m.name === 'text:t0' || m.name === 'tool:c1:search')
+        .map((m) => m.serial)
+        .sort(),
+    );
+    expect(channel.deleteCalls[0].message.data).toBe('');
+    expect(channel.deleteCalls[0].operation).toEqual({
+      metadata: { event: 'retract', reason: 'policy' },
+    });
+  });
+
+  it('resolves a message id to its prompt through the start message', async () => {
+    expect(await retractResponse({ channel, messageId: 'm1' })).toBe(2);
+    expect(channel.deleteCalls[0].operation).toEqual({ metadata: { event: 'retract' } });
+  });
+
+  it('skips messages that are already deleted', async () => {
+    await retractResponse({ channel, promptId: 'p1' });
+
+    expect(await retractResponse({ channel, promptId: 'p1' })).toBe(0);
+    expect(channel.deleteCalls).toHaveLength(2);
+  });
+
+  it('leaves a tombstone in reconstructed history', async () => {
+    await retractResponse({ channel, promptId: 'p1', reason: 'policy' });
+
+    const { items } = await channel.history({ limit: 100 });
+    const messages = reconstructMessages([...items].reverse());
+    expect(messages).toHaveLength(3);
+    expect(messages[1]).toMatchObject({
+      id: 'm1',
+      role: 'assistant',
+      parts: [{ type: 'data-tombstone', id: 'tombstone', data: { reason: 'policy' } }],
+    });
+    expect(messages[2].parts).toEqual([{ type: 'text', text: 'Other', state: 'done' }]);
+  });
+
+  it('rejects calls without a prompt or message id, and unknown message ids', async () => {
+    await expect(retractResponse({ channel })).rejects.toThrow(
+      'retractResponse needs a promptId or messageId',
+    );
+    await expect(retractResponse({ channel, messageId: 'nope' })).rejects.toThrow(
+      'No response with message id "nope" in the last 100 messages',
+    );
+  });
+});
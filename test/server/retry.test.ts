@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withRetry, isRejectedAblyError, isRetryableAblyError } from '../../src/server/retry.js';
+
+function ablyError(statusCode?: number, code?: number) {
+  return Object.assign(new Error('ably error'), { statusCode, code });
+}
+
+describe('withRetry', () => {
+  it('returns the result without retrying when the operation succeeds', async () => {
+    const operation = vi.fn().mockResolvedValue('ok');
+
+    await expect(withRetry(operation, {})).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('retries retryable failures until the operation succeeds', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(ablyError(503))
+      .mockRejectedValueOnce(ablyError(503))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(operation, { initialDelayMs: 1 }, onRetry)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map((c) => c[1])).toEqual([1, 2]);
+  });
+
+  it('rethrows the last error once maxAttempts is reached', async () => {
+    const operation = vi.fn().mockRejectedValue(ablyError(500));
+
+    await expect(withRetry(operation, { maxAttempts: 2, initialDelayMs: 1 })).rejects.toThrow(
+      'ably error',
+    );
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors rejected by isRetryable', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('fatal'));
+
+    await expect(
+      withRetry(operation, { initialDelayMs: 1, isRetryable: () => false }),
+    ).rejects.toThrow('fatal');
+    expect(operation).toHaveBeenCalledOnce();
+  });
+
+  it('grows delays exponentially and caps them at maxDelayMs', async () => {
+    const operation = vi.fn().mockRejectedValue(ablyError(503));
+    const onRetry = vi.fn();
+
+    await withRetry(
+      operation,
+      { maxAttempts: 4, initialDelayMs: 1, backoffMultiplier: 3, maxDelayMs: 5, jitter: 0 },
+      onRetry,
+    ).catch(() => {});
+
+    expect(onRetry.mock.calls.map((c) => c[2])).toEqual([1, 3, 5]);
+  });
+
+  it('keeps jittered delays within the configured fraction', async () => {
+    const operation = vi.fn().mockRejectedValue(ablyError(503));
+    const onRetry = vi.fn();
+
+    await withRetry(operation, { maxAttempts: 2, initialDelayMs: 10, jitter: 0.5 }, onRetry).catch(
+      () => {},
+    );
+
+    const delay = onRetry.mock.calls[0][2];
+    expect(delay).toBeGreaterThanOrEqual(5);
+    expect(delay).toBeLessThanOrEqual(15);
+  });
+});
+
+describe('isRetryableAblyError', () => {
+  it('retries server errors, rate limits, connection errors and unknown failures', () => {
+    expect(isRetryableAblyError(ablyError(500))).toBe(true);
+    expect(isRetryableAblyError(ablyError(429))).toBe(true);
+    expect(isRetryableAblyError(ablyError(400, 80003))).toBe(true);
+    expect(isRetryableAblyError(new Error('network down'))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableAblyError(ablyError(401, 40140))).toBe(false);
+    expect(isRetryableAblyError(ablyError(400, 40000))).toBe(false);
+  });
+});
+
+describe('isRejectedAblyError', () => {
+  it('recognises rate limiting and an unavailable service', () => {
+    expect(isRejectedAblyError(ablyError(429))).toBe(true);
+    expect(isRejectedAblyError(ablyError(503))).toBe(true);
+  });
+
+  it('does not vouch for timeouts, lost connections or other server errors', () => {
+    expect(isRejectedAblyError(ablyError(504, 50003))).toBe(false);
+    expect(isRejectedAblyError(ablyError(500))).toBe(false);
+    expect(isRejectedAblyError(ablyError(400, 80003))).toBe(false);
+    expect(isRejectedAblyError(new Error('network down'))).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { rewriteText } from '../../src/server/rewriteText.js';
+import { aesGcmEncryption, decryptMessage } from '../../src/encryption.js';
+import { createMockChannel, resetSerialCounter } from '../helpers/mockAbly.js';
+
+describe('rewriteText', () => {
+  let channel: ReturnType<typeof createMockChannel>;
+
+  beforeEach(() => {
+    resetSerialCounter();
+    channel = createMockChannel();
+  });
+
+  it('replaces the text of a finished message with a rewrite event', async () => {
+    await rewriteText({
+      channel,
+      message: { serial: 's1', name: 'reasoning:r-0', extras: { headers: { promptId: 'p1' } } },
+      text: 'masked',
+    });
+
+    expect(channel.updateCalls).toEqual([
+      {
+        message: {
+          serial: 's1',
+          name: 'reasoning:r-0',
+          data: 'masked',
+          extras: { headers: { role: 'assistant', protocolVersion: '1', promptId: 'p1' } },
+        },
+        operation: { metadata: { event: 'reasoning-rewrite' } },
+      },
+    ]);
+  });
+
+  it('encrypts the replacement when encryption is set', async () => {
+    const encryption = aesGcmEncryption(btoa('k'.repeat(32)));
+
+    await rewriteText({
+      channel,
+      message: { serial: 's1', name: 'text:t-0' },
+      text: 'masked',
+      encryption,
+    });
+
+    const sent = channel.updateCalls[0].message;
+    expect(sent.data).not.toContain('masked');
+    expect((await decryptMessage(sent as any, encryption)).data).toBe('masked');
+  });
+
+  it('rejects messages other than text and reasoning', async () => {
+    await expect(
+      rewriteText({ channel, message: { serial: 's1', name: 'tool:c1:search' }, text: 'x' }),
+    ).rejects.toThrow('Only text: and reasoning: messages can be rewritten, not "tool:c1:search"');
+    await expect(
+      rewriteText({ channel, message: { name: 'text:t-0' }, text: 'x' }),
+    ).rejects.toThrow('Cannot rewrite "text:t-0" without its serial');
+  });
+});
@@ -3,7 +3,11 @@ import { subscribeToChannel } from '../../src/server/subscribeToChannel.js';
 import { createMockChannel, resetSerialCounter, type MockPresence } from '../helpers/mockAbly.js';
 import { createChunkStream } from '../helpers/streamHelpers.js';
 import { makeUserMessage } from '../helpers/messageBuilders.js';
-import type { UIMessageChunk } from 'ai';
+import { aesGcmEncryption, encryptMessage } from '../../src/encryption.js';
+import { inMemoryCheckpointStore } from '../../src/server/checkpoints.js';
+import type { GenerationCheckpoint } from '../../src/server/checkpoints.js';
+import { inMemoryConversationStore } from '../../src/server/conversationStore.js';
+import type { UIMessage, UIMessageChunk } from 'ai';
 
 function makeAssistantStream(text: string): ReadableStream<UIMessageChunk> {
   return createChunkStream([
@@ -366,6 +370,37 @@ describe('subscribeToChannel', () => {
     expect(handler.mock.calls[1][0].messages).toHaveLength(2);
   });
 
+  it('forwards publishOptions to publishToAbly', async () => {
+    const handler = vi
+      .fn()
+      .mockResolvedValue(
+        createChunkStream([
+          { type: 'start' },
+          { type: 'start-step' },
+          { type: 'text-start', id: 'text-0' },
+          { type: 'text-delta', id: 'text-0', delta: 'Hel' },
+          { type: 'text-delta', id: 'text-0', delta: 'lo' },
+          { type: 'text-end', id: 'text-0' },
+          { type: 'finish-step' },
+          { type: 'finish', finishReason: 'stop' },
+        ]),
+      );
+
+    subscribeToChannel({ channel, handler, publishOptions: { coalesce: {} } });
+
+    channel.simulateMessage({
+      name: 'chat-message',
+      action: 'message.create',
+      serial: 'S1',
+      data: JSON.stringify({ message: makeUserMessage('msg-1', 'Hello') }),
+      extras: { headers: { role: 'user' } },
+    });
+
+    await new Promise((r) => setTimeout(r, 50));
+
+    expect(channel.appendCalls.map((c) => c.message.data)).toEqual(['Hello', '']);
+  });
+
   it('passes promptId from trigger message to published response messages', async () => {
     const handler = vi.fn().mockResolvedValue(makeAssistantStream('Hi'));
 
@@ -437,6 +472,52 @@ describe('subscribeToChannel', () => {
     }
   });
 
+  it('passes the prompt request details to the handler', async () => {
+    const handler = vi.fn().mockImplementation(() => Promise.resolve(makeAssistantStream('Hi')));
+
+    await subscribeToChannel({ channel, handler });
+    channel.simulateMessage({
+      name: 'chat-message',
+      action: 'message.create',
+      serial: 'S1',
+      clientId: 'user-42',
+      data: JSON.stringify({
+        chatId: 'chat-1',
+        body: { model: 'large' },
+        headers: { 'x-feature': 'beta' },
+        metadata: { source: 'sidebar' },
+        message: makeUserMessage('msg-1', 'Hello'),
+      }),
+      extras: { headers: { role: 'user', promptId: 'p-1' } },
+    });
+    await new Promise((r) => setTimeout(r, 50));
+    channel.simulateMessage({
+      name: 'regenerate',
+      action: 'message.create',
+      serial: 'S2',
+      data: JSON.stringify({ chatId: 'chat-1', body: { model: 'small' } }),
+      extras: { headers: { role: 'user', promptId: 'p-2' } },
+    });
+    await new Promise((r) => setTimeout(r, 50));
+
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      chatId: 'chat-1',
+      promptId: 'p-1',
+      clientId: 'user-42',
+      body: { model: 'large' },
+      headers: { 'x-feature': 'beta' },
+      metadata: { source: 'sidebar' },
+      trigger: 'submit-message',
+    });
+    expect(handler.mock.calls[1][0]).toMatchObject({
+      chatId: 'chat-1',
+      promptId: 'p-2',
+      body: { model: 'small' },
+      trigger: 'regenerate-message',
+    });
+    expect(handler.mock.calls[1][0].clientId).toBeUndefined();
+  });
+
   describe('presence', () => {
     it('enters presence when presence option is provided', async () => {
       const handler = vi.fn().mockResolvedValue(makeAssistantStream('Hi'));
@@ -445,7 +526,7 @@ describe('subscribeToChannel', () => {
       const presence = channel.presence as unknown as MockPresence;
       expect(presence.enterClientCalls).toHaveLength(1);
       expect(presence.enterClientCalls[0].clientId).toBe('agent');
-      expect(presence.enterClientCalls[0].data).toEqual({ type: 'agent' });
+      expect(presence.enterClientCalls[0].data).toEqual({ type: 'agent', protocolVersion: 1 });
     });
 
     it('uses custom clientId and data', async () => {
@@ -459,7 +540,11 @@ describe('subscribeToChannel', () => {
       const presence = channel.presence as unknown as MockPresence;
       expect(presence.enterClientCalls).toHaveLength(1);
       expect(presence.enterClientCalls[0].clientId).toBe('my-bot');
-      expect(presence.enterClientCalls[0].data).toEqual({ type: 'agent', version: '2.0' });
+      expect(presence.enterClientCalls[0].data).toEqual({
+        type: 'agent',
+        protocolVersion: 1,
+        version: '2.0',
+      });
     });
 
     it('does not enter presence when option is omitted', async () => {
@@ -560,4 +645,902 @@ describe('subscribeToChannel', () => {
     expect(callArgs.messages[2].role).toBe('user');
     expect(callArgs.messages[2].id).toBe('msg-1');
   });
+
+  it('decrypts history and client messages and encrypts responses when encryption is set', async () => {
+    const encryption = aesGcmEncryption(btoa('0123456789abcdef0123456789abcdef'));
+    const handler = vi.fn().mockResolvedValue(makeAssistantStream('Secret reply'));
+
+    (channel as any).publishedMessages.push(
+      await encryptMessage(
+        {
+          name: 'chat-message',
+          data: JSON.stringify({ message: makeUserMessage('hist-1', 'Old message') }),
+          serial: 'H1',
+          action: 'message.create',
+          id: 'H1',
+          timestamp: Date.now(),
+          version: { serial: 'H1', timestamp: Date.now() },
+          annotations: { summary: {} },
+          extras: { headers: { role: 'user' } },
+        } as any,
+        encryption,
+      ),
+    );
+
+    subscribeToChannel({ channel, handler, encryption });
+    await new Promise((r) => setTimeout(r, 50));
+
+    channel.simulateMessage(
+      await encryptMessage(
+        {
+          name: 'chat-message',
+          action: 'message.create',
+          serial: 'S1',
+          data: JSON.stringify({ message: makeUserMessage('msg-1', 'New message') }),
+          extras: { headers: { role: 'user' } },
+        } as any,
+        encryption,
+      ),
+    );
+    await new Promise((r) => setTimeout(r, 50));
+
+    const { messages } = handler.mock.calls[0][0];
+    expect(messages.map((m: any) => m.parts[0].text)).toEqual(['Old message', 'New message']);
+    expect(channel.appendCalls[0].message.data).not.toContain('Secret');
+    expect(channel.appendCalls[0].message.extras?.headers?.encrypted).toBe('true');
+  });
+
+  it('drops history messages that fail to decrypt instead of the whole conversation', async () => {
+    const encryption = aesGcmEncryption(btoa('0123456789abcdef0123456789abcdef'));
+    const otherKey = aesGcmEncryption(btoa('fedcba9876543210fedcba9876543210'));
+    const handler = vi.fn().mockResolvedValue(makeAssistantStream('Reply'));
+    const history = (id: string, serial: string) => ({
+      name: 'chat-message',
+      data: JSON.stringify({ message: makeUserMessage(id, id) }),
+      serial,
+      action: 'message.create',
+      id: serial,
+      timestamp: Date.now(),
+      version: { serial, timestamp: Date.now() },
+      annotations: { summary: {} },
+      extras: { headers: { role: 'user' } },
+    });
+
+    (channel as any).publishedMessages.push(
+      await encryptMessage(history('hist-1', 'H1') as any, encryption),
+      await encryptMessage(history('hist-2', 'H2') as any, otherKey),
+    );
+
+    subscribeToChannel({ channel, handler, encryption });
+    await new Promise((r) => setTimeout(r, 50));
+
+    channel.simulateMessage(
+      await encryptMessage(
+        {
+          name: 'chat-message',
+          action: 'message.create',
+          serial: 'S1',
+          data: JSON.stringify({ message: makeUserMessage('msg-1', 'New message') }),
+          extras: { headers: { role: 'user' } },
+        } as any,
+        encryption,
+      ),
+    );
+    await new Promise((r) => setTimeout(r, 50));
+
+    const { messages } = handler.mock.calls[0][0];
+    expect(messages.map((m: UIMessage) => m.id)).toEqual(['hist-1', 'msg-1']);
+  });
+
+  it('answers a prompt on an unsupported protocol version with an error terminal', async () => {
+    const handler = vi.fn();
+
+    subscribeToChannel({ channel, handler });
+
+    channel.simulateMessage({
+      name: 'chat-message',
+      action: 'message.create',
+      serial: 'S1',
+      data: JSON.stringify({ message: makeUserMessage('msg-1', 'Hello') }),
+      extras: { headers: { role: 'user', promptId: 'p1', protocolVersion: '5' } },
+    });
+
+    await new Promise((r) => setTimeout(r, 50));
+
+    expect(handler).not.toHaveBeenCalled();
+    const error = channel.publishCalls.find((c) => c.message.name === 'error')!.message;
+    expect(error.extras.headers).toEqual({
+      role: 'assistant',
+      protocolVersion: '1',
+      promptId: 'p1',
+    });
+    expect(JSON.parse(error.data).errorText).toContain('Unsupported protocol version 5');
+  });
+
+  describe('transformChunk', () => {
+    const redact = (chunk: UIMessageChunk): UIMessageChunk =>
+      chunk.type === 'text-delta'
+        ? { ...chunk, delta: chunk.delta.replace('secret', '***') }
+        : chunk;
+
+    async function runTwoTurns(options: { retainOriginalChunks?: boolean }) {
+      const handler = vi
+        .fn()
+        .mockImplementation(() => Promise.resolve(makeAssistantStream('the secret')));
+
+      subscribeToChannel({ channel, handler, transformChunk: redact, ...options });
+
+      for (const [serial, id] of [
+        ['S1', 'msg-1'],
+        ['S2', 'msg-2'],
+      ]) {
+        channel.simulateMessage({
+          name: 'chat-message',
+          action: 'message.create',
+          serial,
+          data: JSON.stringify({ message: makeUserMessage(id, 'Hi') }),
+          extras: { headers: { role: 'user' } },
+        });
+        await new Promise((r) => setTimeout(r, 50));
+      }
+
+      return handler.mock.calls[1][0].messages[1].parts.find((p: any) => p.type === 'text').text;
+    }
+
+    it('publishes transformed chunks and records them in conversation state by default', async () => {
+      expect(await runTwoTurns({})).toBe('the ***');
+      expect(channel.appendCalls[0].message.data).toBe('the ***');
+    });
+
+    it('keeps the original chunks in conversation state with retainOriginalChunks', async () => {
+      expect(await runTwoTurns({ retainOriginalChunks: true })).toBe('the secret');
+      expect(channel.appendCalls.map((c) => c.message.data)).not.toContain('the secret');
+    });
+  });
+
+  describe('checkpoints', () => {
+    function historyMessage(name: string, serial: string, promptId: string) {
+      return {
+        name,
+        data: name === 'finish' ? '{"finishReason":"stop"}' : 'partial',
+        serial,
+        action: 'message.create',
+        id: serial,
+        timestamp: Date.now(),
+        version: { serial, timestamp: Date.now() },
+        annotations: { summary: {} },
+        extras: { headers: { role: 'assistant', promptId } },
+      };
+    }
+
+    function orphan(promptId: string): GenerationCheckpoint {
+      return {
+        channelName: channel.name,
+        promptId,
+        serials: { 'text-0': { serial: 'H1', type: 'text', name: 'text:t0' } },
+        position: 3,
+        updatedAt: Date.now(),
+      };
+    }
+
+    it('terminates generations left open by a previous worker before handling prompts', async () => {
+      const checkpoints = inMemoryCheckpointStore();
+      await checkpoints.save(orphan('p-old'));
+      (channel as any).publishedMessages.push(historyMessage('text:t0', 'H1', 'p-old'));
+
+      await subscribeToChannel({ channel, handler: vi.fn(), checkpoints });
+
+      expect(channel.publishCalls.map((c) => c.message)).toEqual([
+        expect.objectContaining({
+          id: 'p-old:4:error',
+          name: 'error',
+          extras: { headers: { role: 'assistant', protocolVersion: '1', promptId: 'p-old' } },
+        }),
+      ]);
+      expect(await checkpoints.list(channel.name)).toEqual([]);
+    });
+
+    it('only removes the checkpoint when the terminal is already in history', async () => {
+      const checkpoints = inMemoryCheckpointStore();
+      await checkpoints.save(orphan('p-old'));
+      (channel as any).publishedMessages.push(
+        historyMessage('text:t0', 'H1', 'p-old'),
+        historyMessage('finish', 'H2', 'p-old'),
+      );
+
+      await subscribeToChannel({ channel, handler: vi.fn(), checkpoints });
+
+      expect(channel.publishCalls).toEqual([]);
+      expect(await checkpoints.list(channel.name)).toEqual([]);
+    });
+
+    it('checkpoints generations and clears them once finished', async () => {
+      const checkpoints = inMemoryCheckpointStore();
+      const save = vi.spyOn(checkpoints, 'save');
+      const handler = vi.fn().mockResolvedValue(makeAssistantStream('Hi'));
+
+      await subscribeToChannel({ channel, handler, checkpoints });
+      channel.simulateMessage({
+        name: 'chat-message',
+        action: 'message.create',
+        serial: 'S1',
+        data: JSON.stringify({ message: makeUserMessage('msg-1', 'Hello') }),
+        extras: { headers: { role: 'user', promptId: 'p1' } },
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(save).toHaveBeenCalledWith(expect.objectContaining({ promptId: 'p1' }));
+      expect(await checkpoints.list(channel.name)).toEqual([]);
+    });
+  });
+
+  describe('onFeedback', () => {
+    const handler = vi.fn();
+
+    it('passes each rating to onFeedback', async () => {
+      const onFeedback = vi.fn();
+      await subscribeToChannel({ channel, handler, onFeedback });
+
+      channel.annotations.simulateAnnotation({
+        type: 'feedback:unique.v1',
+        name: 'down',
+        clientId: 'user-7',
+        messageSerial: 'S2',
+        data: JSON.stringify({ messageId: 'a1', comment: 'Outdated' }),
+      });
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(onFeedback).toHaveBeenCalledWith({
+        messageId: 'a1',
+        rating: 'down',
+        comment: 'Outdated',
+        clientId: 'user-7',
+        messageSerial: 'S2',
+      });
+    });
+
+    it('decrypts comments and ignores removals and unknown ratings', async () => {
+      const encryption = aesGcmEncryption(btoa('k'.repeat(32)));
+      const onFeedback = vi.fn();
+      await subscribeToChannel({ channel, handler, onFeedback, encryption });
+
+      const sealed = await encryptMessage(
+        { data: JSON.stringify({ messageId: 'a1', comment: 'Great' }), extras: {} },
+        encryption,
+      );
+      channel.annotations.simulateAnnotation({
+        type: 'feedback:unique.v1',
+        name: 'up',
+        messageSerial: 'S2',
+        data: sealed.data,
+        extras: sealed.extras,
+      });
+      channel.annotations.simulateAnnotation({
+        type: 'feedback:unique.v1',
+        action: 'annotation.delete',
+        name: 'up',
+      });
+      channel.annotations.simulateAnnotation({ type: 'feedback:unique.v1', name: 'meh' });
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(onFeedback).toHaveBeenCalledOnce();
+      expect(onFeedback).toHaveBeenCalledWith({
+        messageId: 'a1',
+        rating: 'up',
+        comment: 'Great',
+        messageSerial: 'S2',
+      });
+    });
+
+    it('only subscribes to annotations when onFeedback is set, and unsubscribes on cleanup', async () => {
+      await subscribeToChannel({ channel, handler });
+      expect(channel.annotations.listeners).toHaveLength(0);
+
+      const cleanup = await subscribeToChannel({ channel, handler, onFeedback: vi.fn() });
+      expect(channel.annotations.listeners).toHaveLength(1);
+      await cleanup();
+      expect(channel.annotations.listeners).toHaveLength(0);
+    });
+  });
+
+  describe('conversationStore', () => {
+    const chatMessage = (id: string, text: string, serial: string) => ({
+      name: 'chat-message',
+      action: 'message.create' as const,
+      serial,
+      data: JSON.stringify({ message: makeUserMessage(id, text) }),
+      extras: { headers: { role: 'user' } },
+    });
+
+    it('uses a stored conversation instead of seeding from history', async () => {
+      const conversationStore = inMemoryConversationStore();
+      await conversationStore.replace(channel.name, [makeUserMessage('old-1', 'Long ago')]);
+      await channel.publish(chatMessage('recent-1', 'In history', 'S0'));
+      const handler = vi.fn().mockResolvedValue(makeAssistantStream('Hi'));
+
+      await subscribeToChannel({ channel, handler, conversationStore });
+      channel.simulateMessage(chatMessage('msg-1', 'Hello', 'S1'));
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(handler.mock.calls[0][0].messages.map((m: UIMessage) => m.id)).toEqual([
+        'old-1',
+        'msg-1',
+      ]);
+      const stored = await conversationStore.load(channel.name);
+      expect(stored!.map((m) => m.role)).toEqual(['user', 'user', 'assistant']);
+    });
+
+    it('seeds an empty store from initialMessages and history', async () => {
+      const conversationStore = inMemoryConversationStore();
+      await channel.publish(chatMessage('recent-1', 'In history', 'S0'));
+
+      await subscribeToChannel({
+        channel,
+        handler: vi.fn(),
+        conversationStore,
+        initialMessages: [makeUserMessage('init-1', 'Seed')],
+      });
+
+      const stored = await conversationStore.load(channel.name);
+      expect(stored!.map((m) => m.id)).toEqual(['init-1', 'recent-1']);
+    });
+
+    it('rolls the store back when the handler fails', async () => {
+      const conversationStore = inMemoryConversationStore();
+      const handler = vi
+        .fn()
+        .mockResolvedValueOnce(makeAssistantStream('Hi'))
+        .mockRejectedValueOnce(new Error('model unavailable'));
+
+      await subscribeToChannel({ channel, handler, conversationStore });
+      channel.simulateMessage(chatMessage('msg-1', 'Hello', 'S1'));
+      await new Promise((r) => setTimeout(r, 50));
+      channel.simulateMessage(chatMessage('msg-2', 'Again', 'S2'));
+      await new Promise((r) => setTimeout(r, 50));
+
+      const stored = await conversationStore.load(channel.name);
+      expect(stored!.map((m) => m.role)).toEqual(['user', 'assistant']);
+      expect(stored![0].id).toBe('msg-1');
+    });
+
+    it('truncates the store on regenerate', async () => {
+      const conversationStore = inMemoryConversationStore();
+      const handler = vi
+        .fn()
+        .mockImplementation(() => Promise.resolve(makeAssistantStream('Response')));
+      const truncate = vi.spyOn(conversationStore, 'truncate');
+
+      await subscribeToChannel({ channel, handler, conversationStore });
+      channel.simulateMessage(chatMessage('msg-1', 'Hello', 'S1'));
+      await new Promise((r) => setTimeout(r, 50));
+      channel.simulateMessage({
+        name: 'regenerate',
+        action: 'message.create',
+        serial: 'S2',
+        data: JSON.stringify({}),
+        extras: { headers: { role: 'user' } },
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(truncate).toHaveBeenCalledWith(channel.name, 1);
+      const stored = await conversationStore.load(channel.name);
+      expect(stored!.map((m) => m.role)).toEqual(['user', 'assistant']);
+    });
+  });
+
+  describe('concurrency', () => {
+    const chatMessage = (id: string, promptId: string, serial: string) => ({
+      name: 'chat-message',
+      action: 'message.create' as const,
+      serial,
+      data: JSON.stringify({ message: makeUserMessage(id, id) }),
+      extras: { headers: { role: 'user', promptId } },
+    });
+
+    /** A handler whose streams are only returned when the test resolves them. */
+    function deferredHandler() {
+      const resolvers: Array<(stream: ReadableStream<UIMessageChunk>) => void> = [];
+      const handler = vi.fn().mockImplementation(
+        () =>
+          new Promise<ReadableStream<UIMessageChunk>>((resolve) => {
+            resolvers.push(resolve);
+          }),
+      );
+      return { handler, resolvers };
+    }
+
+    it('queues prompts and runs them one after another', async () => {
+      const { handler, resolvers } = deferredHandler();
+      await subscribeToChannel({ channel, handler, concurrency: 'queue' });
+
+      channel.simulateMessage(chatMessage('msg-1', 'p1', 'S1'));
+      await new Promise((r) => setTimeout(r, 20));
+      channel.simulateMessage(chatMessage('msg-2', 'p2', 'S2'));
+      channel.simulateMessage(chatMessage('msg-3', 'p3', 'S3'));
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(handler.mock.calls[0][0].abortSignal.aborted).toBe(false);
+
+      resolvers[0](makeAssistantStream('First'));
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      resolvers[1](makeAssistantStream('Second'));
+      await new Promise((r) => setTimeout(r, 50));
+      resolvers[2](makeAssistantStream('Third'));
+      await new Promise((r) => setTimeout(r, 50));
+
+      // Each prompt sees the complete exchanges before it
+      expect(handler.mock.calls[1][0].messages.map((m: UIMessage) => m.role)).toEqual([
+        'user',
+        'assistant',
+        'user',
+      ]);
+      expect(handler.mock.calls[2][0].messages.map((m: UIMessage) => m.id)).toContain('msg-2');
+      expect(handler.mock.calls[2][0].messages).toHaveLength(5);
+    });
+
+    it('drops a queued prompt aborted before it starts, leaving the in-flight one running', async () => {
+      const { handler, resolvers } = deferredHandler();
+      await subscribeToChannel({ channel, handler, concurrency: 'queue' });
+
+      channel.simulateMessage(chatMessage('msg-1', 'p1', 'S1'));
+      await new Promise((r) => setTimeout(r, 20));
+      channel.simulateMessage(chatMessage('msg-2', 'p2', 'S2'));
+      await new Promise((r) => setTimeout(r, 20));
+      channel.simulateMessage({
+        name: 'user-abort',
+        action: 'message.create',
+        serial: 'S3',
+        extras: { headers: { role: 'user', promptId: 'p2' } },
+      });
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(handler.mock.calls[0][0].abortSignal.aborted).toBe(false);
+      const abort = channel.publishCalls.find((c) => c.message.name === 'abort')!.message;
+      expect(abort.extras.headers.promptId).toBe('p2');
+
+      resolvers[0](makeAssistantStream('First'));
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler).toHaveBeenCalledOnce();
+
+      // The dropped prompt is left out of the conversation
+      channel.simulateMessage(chatMessage('msg-3', 'p3', 'S4'));
+      await new Promise((r) => setTimeout(r, 20));
+      expect(handler.mock.calls[1][0].messages.map((m: UIMessage) => m.id)).not.toContain('msg-2');
+    });
+
+    it('rejects prompts that arrive mid-generation with an error terminal', async () => {
+      const { handler, resolvers } = deferredHandler();
+      await subscribeToChannel({ channel, handler, concurrency: 'reject' });
+
+      channel.simulateMessage(chatMessage('msg-1', 'p1', 'S1'));
+      await new Promise((r) => setTimeout(r, 20));
+      channel.simulateMessage(chatMessage('msg-2', 'p2', 'S2'));
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(handler.mock.calls[0][0].abortSignal.aborted).toBe(false);
+      const error = channel.publishCalls.find((c) => c.message.name === 'error')!.message;
+      expect(error.extras.headers.promptId).toBe('p2');
+      expect(JSON.parse(error.data).errorText).toMatch(/busy/);
+
+      // The rejected prompt is left out of the conversation
+      resolvers[0](makeAssistantStream('First'));
+      await new Promise((r) => setTimeout(r, 50));
+      channel.simulateMessage(chatMessage('msg-3', 'p3', 'S3'));
+      await new Promise((r) => setTimeout(r, 20));
+      expect(handler.mock.calls[1][0].messages.map((m: UIMessage) => m.id)).not.toContain('msg-2');
+    });
+
+    it('drops queued prompts when cleaned up', async () => {
+      const { handler, resolvers } = deferredHandler();
+      const cleanup = await subscribeToChannel({ channel, handler, concurrency: 'queue' });
+
+      channel.simulateMessage(chatMessage('msg-1', 'p1', 'S1'));
+      await new Promise((r) => setTimeout(r, 20));
+      channel.simulateMessage(chatMessage('msg-2', 'p2', 'S2'));
+      await new Promise((r) => setTimeout(r, 20));
+
+      const cleaned = cleanup();
+      resolvers[0](makeAssistantStream('First'));
+      await cleaned;
+      await new Promise((r) => setTimeout(r, 20));
+
+      expect(handler).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('tool approvals and results', () => {
+    const awaitingApproval: UIMessage = {
+      id: 'asst-1',
+      role: 'assistant',
+      parts: [
+        {
+          type: 'tool-deleteFiles',
+          toolCallId: 'call-1',
+          state: 'approval-requested',
+          input: { path: '/tmp' },
+          approval: { id: 'approval-1' },
+        } as any,
+      ],
+    };
+    const approvalResponse = (messageId: string, approved: boolean) => ({
+      name: 'tool-approval-response',
+      action: 'message.create' as const,
+      serial: 'S2',
+      data: JSON.stringify({ messageId, approvals: [{ approvalId: 'approval-1', approved }] }),
+      extras: { headers: { role: 'user', promptId: 'p-2' } },
+    });
+
+    it('applies the decisions and continues the approved message', async () => {
+      const conversationStore = inMemoryConversationStore();
+      await conversationStore.replace(channel.name, [
+        makeUserMessage('msg-1', 'Clean up'),
+        {
+          ...awaitingApproval,
+          parts: [
+            ...awaitingApproval.parts,
+            {
+              type: 'tool-deleteFiles',
+              toolCallId: 'call-3',
+              state: 'approval-requested',
+              input: { path: '/home' },
+              approval: { id: 'approval-3' },
+            } as any,
+          ],
+        },
+      ]);
+      const approved = await channel.publish({
+        name: 'tool:call-1:deleteFiles',
+        data: '{"path":"/tmp"}',
+        extras: { headers: { role: 'assistant' } },
+      });
+      const denied = await channel.publish({
+        name: 'tool:call-3:deleteFiles',
+        data: '{"path":"/home"}',
+        extras: { headers: { role: 'assistant' } },
+      });
+      // As `streamText` continues it: outputs and denials for the earlier tool calls, without their inputs
+      const handler = vi
+        .fn()
+        .mockResolvedValue(
+          createChunkStream([
+            { type: 'start', messageId: 'asst-1' },
+            { type: 'start-step' },
+            { type: 'tool-output-available', toolCallId: 'call-1', output: { deleted: 3 } },
+            { type: 'tool-output-denied', toolCallId: 'call-3' },
+            { type: 'text-start', id: 't1' },
+            { type: 'text-delta', id: 't1', delta: 'Deleted' },
+            { type: 'text-end', id: 't1' },
+            { type: 'finish-step' },
+            { type: 'finish' },
+          ] as UIMessageChunk[]),
+        );
+
+      await subscribeToChannel({ channel, handler, conversationStore });
+      channel.simulateMessage({
+        ...approvalResponse('asst-1', true),
+        data: JSON.stringify({
+          messageId: 'asst-1',
+          approvals: [
+            { approvalId: 'approval-1', approved: true },
+            { approvalId: 'approval-3', approved: false },
+          ],
+        }),
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      const { messages, trigger } = handler.mock.calls[0][0];
+      expect(trigger).toBe('submit-message');
+      expect(messages.map((m: UIMessage) => m.id)).toEqual(['msg-1', 'asst-1']);
+      expect(messages[1].parts[0]).toMatchObject({
+        state: 'approval-responded',
+        approval: { id: 'approval-1', approved: true },
+      });
+      expect(messages[1].parts[1]).toMatchObject({
+        state: 'approval-responded',
+        approval: { id: 'approval-3', approved: false },
+      });
+
+      expect(channel.publishCalls.find((c) => c.message.name === 'error')).toBeUndefined();
+      expect(channel.updateCalls.map((c) => c.message)).toEqual([
+        expect.objectContaining({
+          serial: approved.serials[0],
+          name: 'tool-output:call-1',
+          data: JSON.stringify({ output: { deleted: 3 } }),
+        }),
+        expect.objectContaining({
+          serial: denied.serials[0],
+          name: 'tool-denied:call-3',
+        }),
+      ]);
+
+      const stored = await conversationStore.load(channel.name);
+      expect(stored!.map((m) => m.id)).toEqual(['msg-1', 'asst-1']);
+      expect(stored![1].parts.map((p) => p.type)).toEqual([
+        'tool-deleteFiles',
+        'tool-deleteFiles',
+        'step-start',
+        'text',
+      ]);
+      expect((stored![1].parts[0] as any).state).toBe('output-available');
+      expect((stored![1].parts[1] as any).state).toBe('output-denied');
+    });
+
+    it('answers approvals for an unknown message with an error terminal', async () => {
+      const handler = vi.fn();
+
+      await subscribeToChannel({ channel, handler });
+      channel.simulateMessage(approvalResponse('missing', true));
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(handler).not.toHaveBeenCalled();
+      const error = channel.publishCalls.find((c) => c.message.name === 'error');
+      expect(error!.message.extras.headers.promptId).toBe('p-2');
+    });
+
+    it('records client tool results, publishes them to the tool call and continues', async () => {
+      const conversationStore = inMemoryConversationStore();
+      await conversationStore.replace(channel.name, [
+        makeUserMessage('msg-1', 'Where am I?'),
+        {
+          id: 'asst-1',
+          role: 'assistant',
+          parts: [
+            {
+              type: 'tool-getLocation',
+              toolCallId: 'call-2',
+              state: 'input-available',
+              input: {},
+            } as any,
+          ],
+        },
+      ]);
+      const { serials } = await channel.publish({
+        name: 'tool:call-2:getLocation',
+        data: '{}',
+        extras: { headers: { role: 'assistant' } },
+      });
+      const handler = vi.fn().mockResolvedValue(makeAssistantStream('You are in Paris'));
+
+      await subscribeToChannel({ channel, handler, conversationStore });
+      channel.simulateMessage({
+        name: 'tool-result',
+        action: 'message.create',
+        serial: 'S2',
+        data: JSON.stringify({
+          messageId: 'asst-1',
+          results: [{ toolCallId: 'call-2', output: { city: 'Paris' } }],
+        }),
+        extras: { headers: { role: 'user', promptId: 'p-3' } },
+      });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(channel.updateCalls[0].message).toMatchObject({
+        serial: serials[0],
+        name: 'tool-output:call-2',
+        data: JSON.stringify({ output: { city: 'Paris' } }),
+        extras: { headers: { role: 'assistant', promptId: 'p-3' } },
+      });
+      expect(handler.mock.calls[0][0].messages[1].parts[0]).toMatchObject({
+        state: 'output-available',
+        output: { city: 'Paris' },
+      });
+      const stored = await conversationStore.load(channel.name);
+      expect(stored!.map((m) => m.id)).toEqual(['msg-1', 'asst-1']);
+      expect(stored![1].parts.map((p) => p.type)).toEqual([
+        'tool-getLocation',
+        'step-start',
+        'text',
+      ]);
+    });
+  });
+
+  describe('agent', () => {
+    const prompt = (promptId: string, headers: Record<string, string> = {}) => ({
+      name: 'chat-message',
+      action: 'message.create' as const,
+      serial: `S-${promptId}`,
+      data: JSON.stringify({ message: makeUserMessage(`msg-${promptId}`, 'Hello') }),
+      extras: { headers: { role: 'user', promptId, ...headers } },
+    });
+    const claim = (promptId: string, agent: string) => ({
+      name: 'claim',
+      action: 'message.create' as const,
+      serial: `C-${promptId}-${agent}`,
+      extras: { headers: { role: 'assistant', promptId, agent } },
+    });
+
+    it('ignores prompts addressed to another agent or a capability it lacks', async () => {
+      const handler = vi.fn().mockResolvedValue(makeAssistantStream('Hi'));
+
+      await subscribeToChannel({
+        channel,
+        handler,
+        agent: { name: 'billing', capabilities: ['invoices'] },
+      });
+      channel.simulateMessage(prompt('p-1', { agent: 'support' }));
+      channel.simulateMessage(prompt('p-2', { capability: 'refunds' }));
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(channel.publishCalls).toHaveLength(0);
+    });
+
+    it('answers only the prompts whose first claim is its own', async () => {
+      const handler = vi.fn().mockImplementation(() => Promise.resolve(makeAssistantStream('Hi')));
+
+      await subscribeToChannel({
+        channel,
+        handler,
+        agent: { name: 'billing', capabilities: ['invoices'] },
+      });
+      channel.simulateMessage(prompt('p-1', { capability: 'invoices' }));
+      await new Promise((r) => setTimeout(r, 10));
+
+      const published = channel.publishCalls.find((c) => c.message.name === 'claim');
+      expect(published!.message).toMatchObject({
+        id: 'p-1:claim',
+        extras: { headers: { role: 'assistant', promptId: 'p-1', agent: 'billing' } },
+      });
+      expect(handler).not.toHaveBeenCalled();
+
+      channel.simulateMessage(claim('p-1', 'billing'));
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler).toHaveBeenCalledOnce();
+
+      channel.simulateMessage(prompt('p-2'));
+      channel.simulateMessage(claim('p-2', 'support'));
+      channel.simulateMessage(claim('p-2', 'billing'));
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    it('ignores aborts of prompts it is not answering', async () => {
+      let signal: AbortSignal | undefined;
+      const handler = vi.fn().mockImplementation(({ abortSignal }) => {
+        signal = abortSignal;
+        return new Promise<ReadableStream<UIMessageChunk>>((resolve) => {
+          setTimeout(() => resolve(makeAssistantStream('Response')), 200);
+        });
+      });
+      const abort = (promptId: string) => ({
+        name: 'user-abort',
+        action: 'message.create' as const,
+        serial: `A-${promptId}`,
+        extras: { headers: { role: 'user', promptId } },
+      });
+
+      await subscribeToChannel({ channel, handler, agent: { name: 'billing' } });
+      channel.simulateMessage(prompt('p-1'));
+      channel.simulateMessage(claim('p-1', 'billing'));
+      await new Promise((r) => setTimeout(r, 20));
+
+      channel.simulateMessage(abort('p-other'));
+      expect(signal!.aborted).toBe(false);
+      channel.simulateMessage(abort('p-1'));
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('records the turns other agents answer in its conversation', async () => {
+      const handler = vi.fn().mockImplementation(() => Promise.resolve(makeAssistantStream('Hi')));
+      const conversationStore = inMemoryConversationStore();
+      /** A prompt and the other agent's answer to it, as they reach the channel. */
+      const answeredElsewhere = async (promptId: string, headers: Record<string, string> = {}) => {
+        const message = prompt(promptId, headers);
+        await channel.publish(message);
+        channel.simulateMessage(message);
+        channel.simulateMessage(claim(promptId, 'support'));
+        const reply = { headers: { role: 'assistant', promptId } };
+        await channel.publish({ name: 'text:t0', data: `Answer to ${promptId}`, extras: reply });
+        await channel.publish({ name: 'finish', data: '{"finishReason":"stop"}', extras: reply });
+        await new Promise((r) => setTimeout(r, 20));
+      };
+
+      await subscribeToChannel({
+        channel,
+        handler,
+        conversationStore,
+        agent: { name: 'billing' },
+      });
+      // Addressed to the other agent, then claimed by it first
+      await answeredElsewhere('p-1', { agent: 'support' });
+      await answeredElsewhere('p-2');
+      channel.simulateMessage(prompt('p-3'));
+      channel.simulateMessage(claim('p-3', 'billing'));
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(handler).toHaveBeenCalledOnce();
+      const { messages } = handler.mock.calls[0][0];
+      expect(
+        messages.map((m: UIMessage) => `${m.role}:${m.id.startsWith('msg-') ? m.id : ''}`),
+      ).toEqual(['user:msg-p-1', 'assistant:', 'user:msg-p-2', 'assistant:', 'user:msg-p-3']);
+      expect(messages[3].parts).toContainEqual(
+        expect.objectContaining({ type: 'text', text: 'Answer to p-2' }),
+      );
+      const stored = await conversationStore.load(channel.name);
+      expect(stored).toHaveLength(6);
+    });
+  });
+
+  describe('highAvailability', () => {
+    const leaderEntered = () =>
+      channel.presence.simulateEnter({
+        clientId: 'agent',
+        connectionId: 'conn-leader',
+        timestamp: 1,
+        data: { type: 'agent', replicaId: 'r1' },
+      });
+    const leaderLeft = () =>
+      channel.presence.simulateLeave({ clientId: 'agent', connectionId: 'conn-leader' });
+    const prompt = async (id: string, promptId: string) => {
+      const message = {
+        name: 'chat-message',
+        data: JSON.stringify({ message: makeUserMessage(id, 'Hello') }),
+        extras: { headers: { role: 'user', promptId } },
+      };
+      const { serials } = await channel.publish(message);
+      channel.simulateMessage({ ...message, action: 'message.create', serial: serials[0] });
+    };
+
+    it('leads when no other replica is present', async () => {
+      const handler = vi.fn().mockResolvedValue(makeAssistantStream('Hi'));
+
+      await subscribeToChannel({ channel, handler, highAvailability: { replicaId: 'r2' } });
+      await prompt('msg-1', 'p-1');
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(channel.presence.enterClientCalls[0].data).toMatchObject({
+        type: 'agent',
+        replicaId: 'r2',
+      });
+    });
+
+    it('follows while another replica leads and answers its unanswered prompt on takeover', async () => {
+      leaderEntered();
+      const handler = vi.fn().mockImplementation(() => Promise.resolve(makeAssistantStream('Hi')));
+
+      await subscribeToChannel({ channel, handler, highAvailability: { replicaId: 'r2' } });
+      await prompt('msg-1', 'p-1');
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler).not.toHaveBeenCalled();
+
+      leaderLeft();
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(handler.mock.calls[0][0].messages.map((m: UIMessage) => m.id)).toEqual(['msg-1']);
+      expect(handler.mock.calls[0][0].promptId).toBe('p-1');
+    });
+
+    it('resumes from history without replaying prompts the leader answered', async () => {
+      leaderEntered();
+      const handler = vi.fn().mockImplementation(() => Promise.resolve(makeAssistantStream('Hi')));
+
+      await subscribeToChannel({ channel, handler, highAvailability: { replicaId: 'r2' } });
+      await prompt('msg-1', 'p-1');
+      const answer = {
+        name: 'text:t0',
+        data: 'Hello there',
+        extras: { headers: { role: 'assistant', promptId: 'p-1' } },
+      };
+      const { serials } = await channel.publish(answer);
+      channel.simulateMessage({ ...answer, action: 'message.create', serial: serials[0] });
+
+      leaderLeft();
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler).not.toHaveBeenCalled();
+
+      await prompt('msg-2', 'p-2');
+      await new Promise((r) => setTimeout(r, 50));
+      expect(handler.mock.calls[0][0].messages.map((m: UIMessage) => m.id)).toEqual([
+        'msg-1',
+        't0',
+        'msg-2',
+      ]);
+    });
+  });
 });